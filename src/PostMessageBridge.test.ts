@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { BotDojoChunk, PostMessageBridge, PostMessageBridgeConfig, RPCMessage, SilentRPCLogger } from "./index";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const ORIGIN = "https://app.example";
+
+/** Stands in for the browser window: message listeners and a target window that delivers nowhere */
+let listeners: ((event: any) => void)[] = [];
+let peerWindow = { postMessage: () => undefined };
+let bridges: PostMessageBridge[] = [];
+
+function createBridge(config: Partial<PostMessageBridgeConfig>) {
+	let received: RPCMessage[] = [];
+	let errors: string[] = [];
+	let bridge = new PostMessageBridge({
+		targetWindow: peerWindow as any,
+		clientId: "bridge",
+		logger: new SilentRPCLogger(),
+		onMessage: (msg) => {
+			received.push(msg);
+		},
+		onError: (error) => errors.push(error.message),
+		...config,
+	});
+	bridge.start();
+	bridges.push(bridge);
+	return { bridge, received, errors };
+}
+
+/** Deliver a chunk as if the target window posted it */
+function sendChunk(chunk: Partial<BotDojoChunk>, origin: string = ORIGIN) {
+	let event = { data: { type: "botdojo-rpc-chunk", payload: chunk }, source: peerWindow, origin };
+	listeners.slice().forEach((listener) => listener(event));
+}
+
+/** Split a message into chunks of `size` characters */
+function chunksOf(transferId: string, msg: RPCMessage, size: number): Partial<BotDojoChunk>[] {
+	let json = JSON.stringify(msg);
+	let count = Math.ceil(json.length / size);
+	return Array.from({ length: count }, (_, index) => ({
+		transferId,
+		index,
+		count,
+		totalSize: json.length,
+		data: json.slice(index * size, (index + 1) * size),
+	}));
+}
+
+beforeEach(() => {
+	(globalThis as any).window = {
+		addEventListener: (type: string, listener: any) => listeners.push(listener),
+		removeEventListener: (type: string, listener: any) => (listeners = listeners.filter((l) => l !== listener)),
+	};
+});
+
+afterEach(() => {
+	bridges.forEach((bridge) => bridge.stop());
+	bridges = [];
+	listeners = [];
+	delete (globalThis as any).window;
+});
+
+describe("PostMessageBridge chunked transfers", () => {
+	it("reassembles the chunks of a message", async () => {
+		let { received, errors } = createBridge({});
+		let msg = RPCMessage.request("peer", "bridge", "echo", ["x".repeat(500)]);
+		chunksOf("t1", msg, 100).reverse().forEach((chunk) => sendChunk(chunk));
+		await sleep(10);
+		expect(errors).toEqual([]);
+		expect(received.map((m) => m.data)).toEqual([["x".repeat(500)]]);
+	});
+
+	it("rejects a transfer that announces more than maxMessageBytes", async () => {
+		let { received, errors } = createBridge({ maxMessageBytes: 1000 });
+		sendChunk({ transferId: "huge", index: 0, count: 2, totalSize: 5000, data: "x" });
+		await sleep(10);
+		expect(errors).toEqual(["Chunked transfer huge announces 5000, more than the maximum of 1000 bytes"]);
+		expect(received).toEqual([]);
+	});
+
+	it("drops a transfer whose chunks add up to more than it announced", async () => {
+		let { bridge, received, errors } = createBridge({ maxIncomingTransfers: 1 });
+		sendChunk({ transferId: "liar", index: 0, count: 2, totalSize: 10, data: "x" });
+		sendChunk({ transferId: "liar", index: 1, count: 2, totalSize: 10, data: "y".repeat(20) });
+		await sleep(10);
+		expect(errors).toEqual(["Chunked transfer liar is larger than the 10 it announced"]);
+		expect((bridge as any).incomingTransfers.size).toBe(0);
+		// its slot is free again
+		let msg = RPCMessage.request("peer", "bridge", "echo", ["ok"]);
+		chunksOf("t2", msg, 20).forEach((chunk) => sendChunk(chunk));
+		await sleep(10);
+		expect(received.map((m) => m.data)).toEqual([["ok"]]);
+	});
+
+	it("rejects transfers beyond maxIncomingTransfers per origin", async () => {
+		let { bridge, received, errors } = createBridge({ maxIncomingTransfers: 2 });
+		let msg = RPCMessage.request("peer", "bridge", "echo", ["first"]);
+		let [first, ...rest] = chunksOf("t1", msg, 20);
+		sendChunk(first);
+		sendChunk({ transferId: "t2", index: 0, count: 2, totalSize: 10, data: "x" });
+		sendChunk({ transferId: "t3", index: 0, count: 2, totalSize: 10, data: "x" });
+		// another origin has its own allowance
+		sendChunk({ transferId: "t3", index: 0, count: 2, totalSize: 10, data: "x" }, "https://other.example");
+		await sleep(10);
+		expect(errors).toEqual(["Too many chunked transfers from " + ORIGIN + ", rejected t3"]);
+		expect((bridge as any).incomingTransfers.size).toBe(3);
+		// chunks of transfers already under way still come in
+		rest.forEach((chunk) => sendChunk(chunk));
+		await sleep(10);
+		expect(received.map((m) => m.data)).toEqual([["first"]]);
+	});
+
+	it("evicts a stale transfer after chunkTimeoutMs", async () => {
+		let { bridge, received, errors } = createBridge({ maxIncomingTransfers: 1, chunkTimeoutMs: 30 });
+		sendChunk({ transferId: "stale", index: 0, count: 3, totalSize: 10, data: "x" });
+		sendChunk({ transferId: "next", index: 0, count: 2, totalSize: 10, data: "x" });
+		await sleep(10);
+		expect(errors).toEqual(["Too many chunked transfers from " + ORIGIN + ", rejected next"]);
+		await sleep(50);
+		expect(errors[1]).toBe("Chunked transfer stale timed out with 1 of 3 chunks");
+		expect((bridge as any).incomingTransfers.size).toBe(0);
+		let msg = RPCMessage.request("peer", "bridge", "echo", ["after"]);
+		chunksOf("next", msg, 20).forEach((chunk) => sendChunk(chunk));
+		await sleep(10);
+		expect(received.map((m) => m.data)).toEqual([["after"]]);
+		expect(errors).toHaveLength(2);
+	});
+});
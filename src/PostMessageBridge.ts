@@ -1,13 +1,50 @@
-import { RPCMessage, RPCMessageError } from "./index";
+import { generateUUID, RPCMessage, RPCMessageError } from "./index";
+import { ConsoleRPCLogger, getDefaultLogger, RPCLogger } from "./logger";
+import { OPAQUE_ORIGIN, OriginAuditEvent, OriginPolicy, OriginPolicyOptions } from "./originPolicy";
+import { CompressionAlgorithm, compressBytes, decompressBytes, DEFAULT_COMPRESSION_ALGORITHMS, isCompressionAlgorithm } from "./compression";
+import { EnvelopeSecurityError, EnvelopeSecurityOptions, EnvelopeSession, isEnvelopeSecurityAvailable, isSealedMessage } from "./envelopeSecurity";
 
 /**
  * PostMessage envelope format for wrapping RPC messages
  */
 export interface BotDojoPostMessage {
-    type: 'botdojo-rpc' | 'botdojo-ready' | 'botdojo-error' | 'botdojo-rpc-compressed';
+    type: 'botdojo-rpc' | 'botdojo-ready' | 'botdojo-error' | 'botdojo-rpc-compressed' | 'botdojo-rpc-chunk'
+        | 'botdojo-channel' | 'botdojo-channel-ack';
     payload: any;
     timestamp?: number;
     compressed?: boolean;
+    /** Algorithm of a compressed payload; missing for the legacy `compressed:` base64 string */
+    encoding?: CompressionAlgorithm;
+}
+
+/**
+ * Payload of a 'botdojo-rpc-chunk' envelope: one slice of the JSON text, or of
+ * the compressed bytes when `encoding` is set
+ */
+export interface BotDojoChunk {
+    transferId: string;
+    index: number;
+    count: number;
+    data: string | Uint8Array;
+    encoding?: CompressionAlgorithm;
+    /** Length of the whole payload, in characters or bytes */
+    totalSize: number;
+    messageId?: string;
+    functionName?: string;
+}
+
+/**
+ * Progress of a chunked transfer, reported after every chunk
+ */
+export interface TransferProgress {
+    transferId: string;
+    direction: 'send' | 'receive';
+    messageId?: string;
+    functionName?: string;
+    chunks: number;
+    totalChunks: number;
+    size: number;
+    totalSize: number;
 }
 
 /**
@@ -17,6 +54,86 @@ export interface BotDojoReadyMessage {
     clientId: string;
     channelId?: string;
     capabilities: string[];
+    /** Missing on peers that predate the handshake */
+    protocolVersion?: number;
+    /** Set on the reply to the peer's ready message, which is never answered again */
+    ack?: boolean;
+    /** New every time the bridge starts, so the peer can tell a restart from a repeated ready */
+    sessionId?: string;
+}
+
+/**
+ * Version of the postMessage protocol spoken by this bridge. Peers without a
+ * version in their ready message are treated as version 1.
+ */
+export const RPC_PROTOCOL_VERSION = 2;
+
+/**
+ * Optional features announced in the ready handshake. A feature is only used
+ * when both peers announce it.
+ */
+export const RPC_CAPABILITIES = {
+    /** Sent by every PostMessageRPCClient, including legacy ones */
+    RPC_CLIENT: 'rpc-client',
+    /** Streamed responses (sendStreamRequest) */
+    STREAMING: 'streaming',
+    /** RPCMessage.headers, e.g. trace context */
+    HEADERS: 'headers',
+    /** Prefix of the compression algorithms a peer can decode, e.g. 'compression:gzip' */
+    COMPRESSION: 'compression:',
+    /** Reassembly of messages split into 'botdojo-rpc-chunk' envelopes */
+    CHUNKING: 'chunking',
+    /** Binary values and MessagePorts sent as they are, see rpcTransfer */
+    TRANSFER: 'transfer',
+    /** RPC traffic moved to a dedicated MessageChannel after the handshake */
+    MESSAGE_CHANNEL: 'message-channel',
+    /** RPC payloads signed with HMAC-SHA256, see PostMessageBridgeConfig.security */
+    SIGNING: 'signing:hmac-sha256',
+    /** RPC payloads encrypted with AES-GCM on top of the signature */
+    ENCRYPTION: 'encryption:aes-gcm',
+    /** Requests marked RPCMessage.notification are never answered */
+    NOTIFICATIONS: 'notifications',
+};
+
+export const DEFAULT_CAPABILITIES: string[] = [
+    RPC_CAPABILITIES.RPC_CLIENT,
+    RPC_CAPABILITIES.STREAMING,
+    RPC_CAPABILITIES.HEADERS,
+    RPC_CAPABILITIES.CHUNKING,
+    RPC_CAPABILITIES.TRANSFER,
+    RPC_CAPABILITIES.MESSAGE_CHANNEL,
+    RPC_CAPABILITIES.NOTIFICATIONS,
+];
+
+/**
+ * Outcome of the ready handshake
+ */
+export class NegotiatedProtocol {
+    /** Lower of the two protocol versions */
+    protocolVersion: number;
+    /** Capabilities announced by both peers */
+    capabilities: string[];
+    peerClientId?: string;
+    /** The peer never acknowledged our ready message, so no optional feature is used */
+    legacy: boolean;
+}
+
+interface OutgoingTransfer {
+    envelopes: BotDojoPostMessage[];
+    posted: number;
+    size: number;
+    resolve: () => void;
+    reject: (error: any) => void;
+}
+
+interface IncomingTransfer {
+    /** Origin the chunks come from, transfers of different origins are kept apart */
+    origin: string;
+    chunks: Array<string | Uint8Array>;
+    received: number;
+    size: number;
+    totalSize: number;
+    timer: any;
 }
 
 /**
@@ -30,7 +147,8 @@ export interface PostMessageBridgeConfig {
     targetWindow: any;
     
     /**
-     * Origin for postMessage (default: '*')
+     * Origin for postMessage (default: '*'). When left at '*' and an origin
+     * policy applies, the bridge derives a strict one from the policy.
      */
     targetOrigin?: string;
     
@@ -88,6 +206,23 @@ export interface PostMessageBridgeConfig {
      * Debug logging
      */
     debug?: boolean;
+
+    /**
+     * Capabilities announced in the ready handshake (default: DEFAULT_CAPABILITIES)
+     */
+    capabilities?: string[];
+
+    /**
+     * How long handshake() waits for the peer before assuming it predates the
+     * handshake (default: 1000ms)
+     */
+    handshakeTimeoutMs?: number;
+
+    /**
+     * Logger for bridge diagnostics (default: the console when `debug` is set,
+     * getDefaultLogger() otherwise)
+     */
+    logger?: RPCLogger;
     
     /**
      * Enable message compression for large payloads (default: true)
@@ -99,12 +234,77 @@ export interface PostMessageBridgeConfig {
      * Size threshold in bytes for compression (default: 50000 = 50KB)
      */
     compressionThreshold?: number;
+
+    /**
+     * Algorithms announced in the handshake, preferred first (default:
+     * DEFAULT_COMPRESSION_ALGORITHMS). Messages are only compressed with an
+     * algorithm the peer announced too.
+     */
+    compressionAlgorithms?: CompressionAlgorithm[];
+
+    /**
+     * Messages larger than this, after compression, are split into chunks of
+     * this size when the peer supports it: characters of JSON or compressed
+     * bytes (default: 262144 = 256KB, 0 disables chunking)
+     */
+    chunkSize?: number;
+
+    /**
+     * How long an incomplete incoming transfer waits for its next chunk before
+     * it is discarded (default: 30000ms)
+     */
+    chunkTimeoutMs?: number;
+
+    /**
+     * How many incomplete incoming transfers one origin may have at a time;
+     * chunks starting another one are rejected (default: 8)
+     */
+    maxIncomingTransfers?: number;
+
+    /**
+     * Largest incoming message accepted once decompressed or reassembled from
+     * chunks, in bytes (default: 16MB like ConectionOptions.maxMessageBytes, 0 disables the limit).
+     * Chunked transfers announcing more than this are rejected up front.
+     */
+    maxMessageBytes?: number;
+
+    /**
+     * Called after every chunk sent or received
+     */
+    onTransferProgress?: (progress: TransferProgress) => void;
+
+    /**
+     * Move RPC traffic with the target window to a private MessageChannel once
+     * the handshake is done, when both sides support it (default: true)
+     */
+    useMessageChannel?: boolean;
     
+    /**
+     * Sign RPC payloads with a key derived from a secret both windows share,
+     * and optionally encrypt them. Used once both sides announce it in the
+     * handshake; with `required` (the default) nothing else is accepted or sent.
+     * Messages with a transfer list can't be signed, so binary values are
+     * copied through codecs instead.
+     */
+    security?: EnvelopeSecurityOptions;
+
     /**
      * Role of this bridge (parent, canvas, or chat)
      * Used to determine which CORS validation to apply
      */
     role?: 'parent' | 'canvas' | 'chat';
+
+    /**
+     * Origins messages are accepted from, for every role. Without it, parent and
+     * canvas bridges use cors.botdojoChatDomain as the allow list, and other
+     * bridges accept any origin.
+     */
+    originPolicy?: Partial<OriginPolicyOptions>;
+
+    /**
+     * Called whenever the origin policy blocks a message
+     */
+    onOriginBlocked?: (event: OriginAuditEvent) => void;
     
     /**
      * CORS configuration for validating PostMessage origins
@@ -112,14 +312,15 @@ export interface PostMessageBridgeConfig {
     cors?: {
         /**
          * Allowed chat iframe domains (for parent and canvas to validate PostMessage source)
-         * If defined, ENFORCED - only these domains allowed
+         * If defined, ENFORCED - only these domains allowed, as OriginPattern entries
          * Default: If undefined, all origins are trusted (backward compatible)
          */
         botdojoChatDomain?: string[];
         
         /**
-         * Allowed parent/canvas domains for tool call routing
-         * Used by chat iframe router to validate which origins can call tools
+         * Allowed parent/canvas domains for tool calls, as OriginPattern entries.
+         * PostMessageRPCClient answers calls from other origins with a
+         * PERMISSION_DENIED error, see RPCAuthorizer.
          */
         allowedToolCallOrigins?: string[];
     };
@@ -141,6 +342,30 @@ export class PostMessageBridge {
     private messageListener: ((event: any) => void) | null = null;
     private isActive: boolean = false;
     private isBrowser: boolean = false;
+    private debugLogger: RPCLogger | null = null;
+    private protocol: NegotiatedProtocol | null = null;
+    private protocolWaiters: Array<(protocol: NegotiatedProtocol) => void> = [];
+    // compression is async, these keep messages in order in both directions
+    private sendQueue: Promise<void> = Promise.resolve();
+    private receiveQueue: Promise<void> = Promise.resolve();
+    private outgoingTransfers: OutgoingTransfer[] = [];
+    private pumpTimer: any = null;
+    private incomingTransfers = new Map<string, IncomingTransfer>();
+    /** Private channel to the target window, see upgradeToChannel */
+    private channelPort: any = null;
+    /** Origin of the target window, checked when the channel was set up */
+    private channelOrigin: string | undefined;
+    /** Set once the peer stopped sending RPC messages through the window */
+    private channelConfirmed: boolean = false;
+    private sessionId: string = generateUUID();
+    /** Null when any origin is accepted, see getOriginPolicy */
+    private originPolicy: OriginPolicy | null = null;
+    /** Origin of the target window, from its ready message or the first message it sent */
+    private peerOrigin: string | undefined;
+    /** Session of the target window the channel belongs to */
+    private peerSessionId: string | undefined;
+    /** Keys and seen nonces of the current pair of sessions, see getEnvelopeSession */
+    private envelopeSession: EnvelopeSession | null = null;
     
     constructor(config: PostMessageBridgeConfig) {
         this.config = {
@@ -148,6 +373,10 @@ export class PostMessageBridge {
             debug: false,
             ...config
         };
+        this.originPolicy = this.createOriginPolicy();
+        if (this.config.debug) {
+            this.debugLogger = new ConsoleRPCLogger({ level: 'debug', prefix: `[PostMessageBridge:${this.config.clientId}]` });
+        }
         
         // Check if we're in a browser environment
         this.isBrowser = typeof globalThis !== 'undefined' && 
@@ -155,7 +384,7 @@ export class PostMessageBridge {
                         typeof (globalThis as any).window.addEventListener === 'function';
         
         if (!this.isBrowser) {
-            console.warn('[PostMessageBridge] Not in browser environment - bridge will be inactive');
+            this.logger.warn('Not in browser environment - bridge will be inactive', { clientId: this.config.clientId });
         }
     }
     
@@ -170,33 +399,52 @@ export class PostMessageBridge {
         return true;
     }
     
-    /**
-     * Validate PostMessage origin against botdojoChatDomain
-     * Used by parent and canvas to ensure messages come from trusted chat iframe
-     */
-    private isPostMessageOriginAllowed(origin: string): boolean {
-        if (!this.config.cors?.botdojoChatDomain) {
-            // No botdojoChatDomain: BACKWARD COMPATIBLE MODE
-            // Trust any origin (same behavior as before CORS implementation)
-            // This ensures existing embed chat users don't experience breaking changes
-            return true;
+    private createOriginPolicy(): OriginPolicy | null {
+        let options = this.config.originPolicy;
+        if (!options && this.config.role !== 'chat' && this.config.cors?.botdojoChatDomain !== undefined) {
+            // Parent or Canvas: only the trusted chat domains
+            options = { allowedOrigins: this.config.cors.botdojoChatDomain };
         }
-        
-        // botdojoChatDomain defined: ENFORCE (only these allowed)
-        const { botdojoChatDomain } = this.config.cors;
-        return botdojoChatDomain.some(allowed => {
-            // Exact match
-            if (allowed === origin) return true;
-            
-            // Wildcard subdomain support (*.example.com)
-            if (allowed.startsWith('*.')) {
-                const domain = allowed.substring(1);
-                return origin.endsWith(domain);
+        if (!options) {
+            // BACKWARD COMPATIBLE MODE: trust any origin
+            return null;
+        }
+        return new OriginPolicy({
+            ...options,
+            onBlocked: (event) => {
+                this.logger.warn('[CORS] Blocked message from origin', { clientId: this.config.clientId, ...event });
+                options.onBlocked?.(event);
+                this.config.onOriginBlocked?.(event);
             }
-            
-            return false;
         });
     }
+
+    /**
+     * Origin policy the bridge enforces, null when it accepts any origin
+     */
+    getOriginPolicy(): OriginPolicy | null {
+        return this.originPolicy;
+    }
+
+    /**
+     * targetOrigin for outgoing messages: the configured one, or with an origin
+     * policy the one it pins down. With `strict` a policy that doesn't pin one
+     * down before the handshake is an error rather than '*'.
+     */
+    getTargetOrigin(strict: boolean = true): string {
+        const configured = this.config.targetOrigin ?? '*';
+        if (configured !== '*' || !this.originPolicy) {
+            return configured;
+        }
+        const derived = this.originPolicy.getTargetOrigin(this.peerOrigin);
+        if (derived) {
+            return derived;
+        }
+        if (strict) {
+            throw new Error('No targetOrigin: the origin policy allows several origins and the target window has not sent a message yet');
+        }
+        return '*';
+    }
     
     /**
      * Start listening for postMessage events
@@ -211,6 +459,7 @@ export class PostMessageBridge {
             return;
         }
         
+        this.sessionId = generateUUID();
         this.messageListener = this.handleMessageEvent.bind(this);
         (globalThis as any).window.addEventListener('message', this.messageListener);
         this.isActive = true;
@@ -234,18 +483,28 @@ export class PostMessageBridge {
             this.messageListener = null;
         }
         this.isActive = false;
+        this.protocol = null;
+        this.closeChannel();
+        this.peerSessionId = undefined;
+        this.peerOrigin = undefined;
+        this.envelopeSession = null;
+        this.incomingTransfers.forEach((transfer) => clearTimeout(transfer.timer));
+        this.incomingTransfers.clear();
         this.log('Bridge stopped');
     }
     
     /**
-     * Send an RPC message via postMessage
+     * Send an RPC message via postMessage. Resolves once it is posted, which
+     * for large messages is after compression; messages are posted in the
+     * order they were sent either way. Messages with a `transfer` list are
+     * posted as they are, handing the listed objects over to the peer.
      */
-    sendMessage(message: RPCMessage): void {
+    sendMessage(message: RPCMessage): Promise<void> {
         if (!this.checkBrowser()) {
-            return;
+            return Promise.resolve();
         }
 
-        const messageToSend: RPCMessage = { ...message };
+        const { transfer, ...messageToSend } = message;
         // Attach defaults if missing so canvas iframes don't need to know their id
         const inferredSource = this.inferCanvasSource();
         if (!messageToSend.source && inferredSource) {
@@ -258,78 +517,325 @@ export class PostMessageBridge {
         // Mirror intermediate step updates into MCP App notifications when targeting MCP canvas iframes
         this.maybeSendMcpAppNotifications(messageToSend);
         
-        const serialized = JSON.stringify(messageToSend);
-        const enableCompression = this.config.enableCompression !== false;
-        const compressionThreshold = this.config.compressionThreshold || 50000; // 50KB default
-        
-        let envelope: BotDojoPostMessage;
-        
-        // Compress large messages if enabled
-        if (enableCompression && serialized.length > compressionThreshold) {
+        // JSON would mangle binary values, so those skip compression, chunking and signing
+        const encoded = !transfer
+            ? this.encodeEnvelopes(messageToSend)
+            : this.config.security
+                ? Promise.reject(new EnvelopeSecurityError('Messages with a transfer list cannot be signed', 'unsigned'))
+                : Promise.resolve([{ type: 'botdojo-rpc', payload: messageToSend, timestamp: Date.now() } as BotDojoPostMessage]);
+        encoded.catch(() => undefined); // rejected through `sent`
+        let chunks: Promise<void> | null = null;
+        const sent = this.sendQueue.then(() => encoded).then((envelopes) => {
+            this.log('Sending message', { 
+                functionName: messageToSend.functionName, 
+                direction: messageToSend.direction,
+                destination: messageToSend.destination,
+                compressed: envelopes[0].compressed || false,
+                chunks: envelopes.length > 1 ? envelopes.length : undefined,
+                transferred: transfer?.length || undefined
+            });
+            if (envelopes.length == 1) {
+                this.postEnvelope(envelopes[0], transfer);
+                return;
+            }
+            // later messages don't wait for the transfer, see pumpChunks
+            chunks = new Promise<void>((resolve, reject) => {
+                this.outgoingTransfers.push({ envelopes, posted: 0, size: 0, resolve, reject });
+                this.pumpChunks();
+            });
+        });
+        this.sendQueue = sent.catch(() => undefined);
+        return sent.then(() => chunks ?? undefined);
+    }
+
+    /**
+     * Post an RPC envelope through the private channel once there is one, to
+     * the target window otherwise
+     */
+    private postEnvelope(envelope: BotDojoPostMessage, transfer?: any[]): void {
+        if (this.channelPort) {
+            this.channelPort.postMessage(envelope, transfer ?? []);
+        } else if (transfer) {
+            (this.config.targetWindow as any).postMessage(envelope, this.getTargetOrigin(), transfer);
+        } else {
+            (this.config.targetWindow as any).postMessage(envelope, this.getTargetOrigin());
+        }
+    }
+
+    /**
+     * Wrap a message in its envelope, signed when security is negotiated,
+     * compressed when it is over the threshold and the peer can decode one of
+     * our algorithms, then split into chunk envelopes when it is still over
+     * chunkSize
+     */
+    private async encodeEnvelopes(message: RPCMessage): Promise<BotDojoPostMessage[]> {
+        const session = this.getEnvelopeSession();
+        const payload = session ? await session.seal(message) : message;
+        // chunks of encrypted messages don't give the function name away
+        const encrypted = isSealedMessage(payload) && payload.iv !== undefined;
+        let envelope: BotDojoPostMessage = {
+            type: 'botdojo-rpc',
+            payload,
+            timestamp: Date.now()
+        };
+        const algorithm = this.config.enableCompression !== false ? this.getCompressionAlgorithm() : null;
+        const chunkSize = this.config.chunkSize ?? 262144;
+        const chunking = chunkSize > 0 && this.supports(RPC_CAPABILITIES.CHUNKING);
+        if (!algorithm && !chunking) {
+            return [envelope];
+        }
+        const serialized = JSON.stringify(payload);
+        let data: string | Uint8Array = serialized;
+        if (algorithm && serialized.length > (this.config.compressionThreshold || 50000)) {
             try {
-                const compressed = this.compressMessage(serialized);
-                envelope = {
-                    type: 'botdojo-rpc-compressed',
-                    payload: compressed,
-                    timestamp: Date.now(),
-                    compressed: true
-                };
-                this.log('Sending compressed message', { 
-                    functionName: messageToSend.functionName,
-                    originalSize: serialized.length,
-                    compressedSize: compressed.length,
-                    compressionRatio: ((1 - compressed.length / serialized.length) * 100).toFixed(1) + '%'
-                });
+                const bytes = new TextEncoder().encode(serialized);
+                const compressed = await compressBytes(bytes, algorithm);
+                if (compressed.length < bytes.length) {
+                    this.log('Sending compressed message', { 
+                        functionName: message.functionName,
+                        algorithm,
+                        originalSize: bytes.length,
+                        compressedSize: compressed.length,
+                        compressionRatio: ((1 - compressed.length / bytes.length) * 100).toFixed(1) + '%'
+                    });
+                    data = compressed;
+                    envelope = {
+                        type: 'botdojo-rpc-compressed',
+                        payload: compressed,
+                        timestamp: envelope.timestamp,
+                        compressed: true,
+                        encoding: algorithm
+                    };
+                }
             } catch (error) {
                 // Fallback to uncompressed if compression fails
                 this.log('Compression failed, sending uncompressed', error);
-                envelope = {
-                    type: 'botdojo-rpc',
-                    payload: messageToSend,
-                    timestamp: Date.now()
-                };
             }
-        } else {
-            envelope = {
-                type: 'botdojo-rpc',
-                payload: messageToSend,
-                timestamp: Date.now()
+        }
+        if (!chunking || data.length <= chunkSize) {
+            return [envelope];
+        }
+        const transferId = generateUUID();
+        const count = Math.ceil(data.length / chunkSize);
+        const chunks: BotDojoPostMessage[] = [];
+        for (let index = 0; index < count; index++) {
+            const chunk: BotDojoChunk = {
+                transferId,
+                index,
+                count,
+                data: data.slice(index * chunkSize, (index + 1) * chunkSize),
+                totalSize: data.length,
+                messageId: message.id,
+                functionName: encrypted ? undefined : message.functionName
             };
+            if (envelope.encoding) {
+                chunk.encoding = envelope.encoding;
+            }
+            chunks.push({
+                type: 'botdojo-rpc-chunk',
+                payload: chunk,
+                timestamp: envelope.timestamp,
+                compressed: envelope.compressed
+            });
         }
-        
-        this.log('Sending message', { 
-            functionName: messageToSend.functionName, 
-            direction: messageToSend.direction,
-            destination: messageToSend.destination,
-            compressed: envelope.compressed || false
+        return chunks;
+    }
+
+    /**
+     * Post one chunk of every outgoing transfer per task. Yielding between
+     * chunks keeps the page responsive and lets small messages (an abort, for
+     * one) go out in between, so they may arrive before the transfer completes.
+     */
+    private pumpChunks(): void {
+        if (this.pumpTimer) {
+            return;
+        }
+        this.pumpTimer = setTimeout(() => {
+            this.pumpTimer = null;
+            this.outgoingTransfers = this.outgoingTransfers.filter((transfer) => {
+                const envelope = transfer.envelopes[transfer.posted];
+                try {
+                    this.postEnvelope(envelope);
+                } catch (error) {
+                    transfer.reject(error);
+                    return false;
+                }
+                transfer.posted++;
+                transfer.size += envelope.payload.data.length;
+                this.reportProgress('send', envelope.payload, transfer.posted, transfer.size);
+                if (transfer.posted == transfer.envelopes.length) {
+                    transfer.resolve();
+                    return false;
+                }
+                return true;
+            });
+            if (this.outgoingTransfers.length > 0) {
+                this.pumpChunks();
+            }
+        }, 0);
+    }
+
+    private reportProgress(direction: 'send' | 'receive', chunk: BotDojoChunk, chunks: number, size: number): void {
+        if (!this.config.onTransferProgress) {
+            return;
+        }
+        try {
+            this.config.onTransferProgress({
+                transferId: chunk.transferId,
+                direction,
+                messageId: chunk.messageId,
+                functionName: chunk.functionName,
+                chunks,
+                totalChunks: chunk.count,
+                size,
+                totalSize: chunk.totalSize
+            });
+        } catch (error) {
+            this.log('Error in onTransferProgress handler', error);
+        }
+    }
+
+    /**
+     * Store an incoming chunk; once all chunks of its transfer are in, returns
+     * the envelope they make up. Throws when the transfer is over the limits.
+     */
+    private receiveChunk(chunk: BotDojoChunk, origin: string): BotDojoPostMessage | null {
+        if (!chunk || typeof chunk.transferId !== 'string' || !Number.isInteger(chunk.count) || chunk.count < 1 ||
+            !Number.isInteger(chunk.index) || chunk.index < 0 || chunk.index >= chunk.count ||
+            !Number.isInteger(chunk.totalSize) || chunk.totalSize < 0 || chunk.count > Math.max(chunk.totalSize, 1) ||
+            (typeof chunk.data !== 'string' && !(chunk.data instanceof Uint8Array))) {
+            this.log('Invalid chunk', chunk);
+            return null;
+        }
+        const maxBytes = this.getMaxMessageBytes();
+        if (maxBytes !== undefined && chunk.totalSize > maxBytes) {
+            throw new Error(`Chunked transfer ${chunk.transferId} announces ${chunk.totalSize}, more than the maximum of ${maxBytes} bytes`);
+        }
+        const key = origin + ' ' + chunk.transferId;
+        let transfer = this.incomingTransfers.get(key);
+        if (!transfer) {
+            const maxTransfers = this.config.maxIncomingTransfers ?? 8;
+            let pending = 0;
+            this.incomingTransfers.forEach((other) => other.origin === origin && pending++);
+            if (pending >= maxTransfers) {
+                throw new Error(`Too many chunked transfers from ${origin}, rejected ${chunk.transferId}`);
+            }
+            transfer = { origin, chunks: new Array(chunk.count), received: 0, size: 0, totalSize: chunk.totalSize, timer: null };
+            this.incomingTransfers.set(key, transfer);
+        }
+        if (transfer.chunks.length !== chunk.count || transfer.totalSize !== chunk.totalSize || transfer.chunks[chunk.index] !== undefined) {
+            this.log('Inconsistent chunk', { transferId: chunk.transferId, index: chunk.index });
+            return null;
+        }
+        if (transfer.size + chunk.data.length > transfer.totalSize) {
+            clearTimeout(transfer.timer);
+            this.incomingTransfers.delete(key);
+            throw new Error(`Chunked transfer ${chunk.transferId} is larger than the ${transfer.totalSize} it announced`);
+        }
+        transfer.chunks[chunk.index] = chunk.data;
+        transfer.received++;
+        transfer.size += chunk.data.length;
+        clearTimeout(transfer.timer);
+        this.reportProgress('receive', chunk, transfer.received, transfer.size);
+        if (transfer.received < chunk.count) {
+            const timeoutMs = this.config.chunkTimeoutMs ?? 30000;
+            transfer.timer = setTimeout(() => {
+                this.incomingTransfers.delete(key);
+                const error = new Error(`Chunked transfer ${chunk.transferId} timed out with ${transfer.received} of ${chunk.count} chunks`);
+                this.log('Discarding incomplete transfer', { transferId: chunk.transferId, messageId: chunk.messageId });
+                if (this.config.onError) {
+                    this.config.onError(error);
+                }
+            }, timeoutMs);
+            return null;
+        }
+        this.incomingTransfers.delete(key);
+        if (typeof transfer.chunks[0] === 'string') {
+            return { type: 'botdojo-rpc', payload: JSON.parse(transfer.chunks.join('')) };
+        }
+        let length = 0;
+        transfer.chunks.forEach((data) => length += data.length);
+        const bytes = new Uint8Array(length);
+        let offset = 0;
+        transfer.chunks.forEach((data: Uint8Array) => {
+            bytes.set(data, offset);
+            offset += data.length;
         });
-        
-        (this.config.targetWindow as any).postMessage(envelope, this.config.targetOrigin!);
+        return { type: 'botdojo-rpc-compressed', payload: bytes, compressed: true, encoding: chunk.encoding };
+    }
+
+    /**
+     * Signer and verifier for the current pair of sessions, null when security
+     * is not configured. Throws when security is required but the peer hasn't
+     * agreed to it (yet).
+     */
+    private getEnvelopeSession(): EnvelopeSession | null {
+        const security = this.config.security;
+        if (!security) {
+            return null;
+        }
+        if (!this.supports(RPC_CAPABILITIES.SIGNING) || !this.peerSessionId) {
+            if (security.required === false) {
+                return null;
+            }
+            throw new EnvelopeSecurityError(isEnvelopeSecurityAvailable()
+                ? 'The peer has not agreed to sign messages'
+                : 'Message signing needs WebCrypto, which is only available in secure contexts', 'unsigned');
+        }
+        const encrypt = security.encrypt === true && this.supports(RPC_CAPABILITIES.ENCRYPTION);
+        const session = this.envelopeSession;
+        if (session && session.sessionId === this.sessionId && session.peerSessionId === this.peerSessionId && session.encrypt === encrypt) {
+            return session;
+        }
+        this.envelopeSession = new EnvelopeSession({ ...new EnvelopeSecurityOptions(), ...security }, this.sessionId, this.peerSessionId, encrypt);
+        return this.envelopeSession;
+    }
+
+    /**
+     * Check the signature of a received payload and unwrap the message, when
+     * security is configured
+     */
+    private async openPayload(payload: any): Promise<any> {
+        const session = this.getEnvelopeSession();
+        return session ? session.open(payload) : payload;
+    }
+
+    /**
+     * Our most preferred algorithm that the peer announced, null before the
+     * handshake and for legacy peers
+     */
+    private getCompressionAlgorithm(): CompressionAlgorithm | null {
+        const algorithms = this.config.compressionAlgorithms ?? DEFAULT_COMPRESSION_ALGORITHMS;
+        return algorithms.find((algorithm) => this.supports(RPC_CAPABILITIES.COMPRESSION + algorithm)) ?? null;
     }
     
+    private getMaxMessageBytes(): number | undefined {
+        const maxBytes = this.config.maxMessageBytes ?? 16 * 1024 * 1024;
+        return maxBytes > 0 ? maxBytes : undefined;
+    }
+
     /**
-     * Compress a message string using browser CompressionStream API
-     * Falls back to simple base64 encoding if CompressionStream is not available
+     * Read the RPC message out of an envelope, decompressing it if needed
      */
-    private compressMessage(message: string): string {
-        // For now, use simple base64 encoding as a placeholder
-        // In production, you could use pako or CompressionStream API
-        // This is a simple implementation that reduces size for repeated patterns
-        const encoder = new TextEncoder();
-        const data = encoder.encode(message);
-        
-        // Simple compression: use base64 but with a marker to indicate compression
-        // In a real implementation, you'd use pako.deflate or CompressionStream
-        const base64 = btoa(String.fromCharCode(...data));
-        
-        // Return compressed format: 'compressed:' prefix + base64
-        return 'compressed:' + base64;
+    private async decodeEnvelope(envelope: BotDojoPostMessage): Promise<any> {
+        if (envelope.type !== 'botdojo-rpc-compressed') {
+            return envelope.payload;
+        }
+        if (typeof envelope.payload === 'string') {
+            return JSON.parse(this.decodeLegacyPayload(envelope.payload));
+        }
+        if (!isCompressionAlgorithm(envelope.encoding) || !(envelope.payload instanceof Uint8Array)) {
+            throw new Error('Unsupported compressed payload: ' + envelope.encoding);
+        }
+        const bytes = await decompressBytes(envelope.payload, envelope.encoding, true, this.getMaxMessageBytes());
+        return JSON.parse(new TextDecoder().decode(bytes));
     }
     
     /**
-     * Decompress a compressed message string
+     * Decode the `compressed:` base64 payloads sent by bridges that predate
+     * real compression
      */
-    private decompressMessage(compressed: string): string {
+    private decodeLegacyPayload(compressed: string): string {
         if (!compressed.startsWith('compressed:')) {
             return compressed; // Not compressed
         }
@@ -347,7 +853,7 @@ export class PostMessageBridge {
     /**
      * Send a ready message
      */
-    sendReady(channelId?: string, capabilities: string[] = []): void {
+    sendReady(channelId?: string, capabilities: string[] = [], ack: boolean = false): void {
         if (!this.checkBrowser()) {
             return;
         }
@@ -355,8 +861,13 @@ export class PostMessageBridge {
         const readyMsg: BotDojoReadyMessage = {
             clientId: this.config.clientId,
             channelId,
-            capabilities
+            capabilities,
+            protocolVersion: RPC_PROTOCOL_VERSION,
+            sessionId: this.sessionId
         };
+        if (ack) {
+            readyMsg.ack = true;
+        }
         
         const envelope: BotDojoPostMessage = {
             type: 'botdojo-ready',
@@ -365,7 +876,8 @@ export class PostMessageBridge {
         };
         
         this.log('Sending ready message', readyMsg);
-        (this.config.targetWindow as any).postMessage(envelope, this.config.targetOrigin!);
+        // the handshake is what tells a policy with wildcards where the peer is
+        (this.config.targetWindow as any).postMessage(envelope, this.getTargetOrigin(false));
     }
     
     /**
@@ -386,7 +898,7 @@ export class PostMessageBridge {
         };
         
         this.log('Sending error', error);
-        (this.config.targetWindow as any).postMessage(envelope, this.config.targetOrigin!);
+        (this.config.targetWindow as any).postMessage(envelope, this.getTargetOrigin());
     }
     
     /**
@@ -412,37 +924,22 @@ export class PostMessageBridge {
             return;
         }
         
-        // CORS Validation: Parent and Canvas validate PostMessage origin
-        // Chat iframe doesn't validate its own PostMessage origins via botdojoChatDomain
-        const isChatIframe = this.config.role === 'chat';
-        
-        if (!isChatIframe && this.config.cors?.botdojoChatDomain !== undefined) {
-            // Parent or Canvas: Validate PostMessage is from trusted chat domain
-            // Note: If botdojoChatDomain is undefined, validation is skipped (backward compatible)
-            if (!this.isPostMessageOriginAllowed(event.origin)) {
-                this.log('[CORS] Blocked PostMessage from untrusted chat domain:', event.origin);
-                
+        // CORS Validation against the origin policy (see createOriginPolicy)
+        if (this.originPolicy) {
+            if (!this.originPolicy.check(event.origin, { context: envelope.type, functionName: envelope.payload?.functionName, messageId: envelope.payload?.id })) {
                 // Send error response if it's an RPC message
                 if (envelope.type === 'botdojo-rpc' || envelope.type === 'botdojo-rpc-compressed') {
-                    let message: RPCMessage | null = null;
-                    try {
-                        if (envelope.type === 'botdojo-rpc-compressed') {
-                            const decompressed = this.decompressMessage(envelope.payload);
-                            message = JSON.parse(decompressed);
-                        } else {
-                            message = envelope.payload;
-                        }
-                        
+                    this.decodeEnvelope(envelope).then((message: RPCMessage | null) => {
                         if (message && message.id) {
                             // Send error response back using RPCMessage.response
-                            const errorMsg = `CORS blocked: PostMessage from untrusted chat domain ${event.origin}`;
+                            const errorMsg = `CORS blocked: PostMessage from untrusted origin ${event.origin}`;
                             const errorResponse = RPCMessage.response(message, new RPCMessageError(errorMsg));
     
-                            this.sendMessage(errorResponse);
+                            return this.sendMessage(errorResponse);
                         }
-                    } catch (e) {
+                    }).catch((e) => {
                         this.log('[CORS] Error sending CORS error response:', e);
-                    }
+                    });
                 }
                 return;
             }
@@ -450,32 +947,158 @@ export class PostMessageBridge {
         
         this.log('Received message', { type: envelope.type, source: event.origin });
         
+        const fromTarget = !!this.config.targetWindow && event.source === this.config.targetWindow;
+        if (fromTarget && this.peerOrigin === undefined) {
+            // peers that predate the handshake never send a ready message
+            this.peerOrigin = event.origin;
+        }
         switch (envelope.type) {
             case 'botdojo-rpc':
-                this.handleRPCMessage(envelope.payload, event.origin);
-                break;
             case 'botdojo-rpc-compressed':
-                // Decompress and handle as normal RPC message
-                try {
-                    const decompressed = this.decompressMessage(envelope.payload);
-                    const message = JSON.parse(decompressed);
-                    this.handleRPCMessage(message, event.origin);
-                } catch (error) {
-                    this.log('Failed to decompress message', error);
-                    if (this.config.onError) {
-                        this.config.onError(error);
-                    }
+            case 'botdojo-rpc-chunk':
+                if (fromTarget && this.channelConfirmed) {
+                    // the peer bridge only uses the channel now, anything else is an imposter
+                    this.log('Ignoring window message after the channel upgrade', { type: envelope.type });
+                    return;
                 }
+                this.handleRPCEnvelope(envelope, event.origin);
                 break;
             case 'botdojo-ready':
-                this.handleReadyMessage(envelope.payload);
+                this.handleReadyMessage(envelope.payload, event.origin, fromTarget);
                 break;
             case 'botdojo-error':
                 this.handleErrorMessage(envelope.payload);
                 break;
+            case 'botdojo-channel':
+                if (fromTarget) {
+                    this.acceptChannel(envelope.payload?.port, event.origin);
+                }
+                break;
+            case 'botdojo-channel-ack':
+                if (fromTarget && this.channelPort) {
+                    this.channelConfirmed = true;
+                    this.log('Channel upgrade confirmed');
+                }
+                break;
         }
     }
     
+    /**
+     * Handle an RPC envelope received through the window or the private channel
+     */
+    private handleRPCEnvelope(envelope: BotDojoPostMessage, origin: string): void {
+        if (envelope.type === 'botdojo-rpc-chunk') {
+            try {
+                const assembled = this.receiveChunk(envelope.payload, origin);
+                if (assembled) {
+                    this.receiveEnvelope(assembled, origin);
+                }
+            } catch (error) {
+                this.log('Failed to reassemble message', error);
+                if (this.config.onError) {
+                    this.config.onError(error);
+                }
+            }
+        } else if (envelope.type === 'botdojo-rpc' || envelope.type === 'botdojo-rpc-compressed') {
+            this.receiveEnvelope(envelope, origin);
+        }
+    }
+
+    private canUseChannel(): boolean {
+        return this.config.useMessageChannel !== false && typeof (globalThis as any).MessageChannel === 'function';
+    }
+
+    /**
+     * Open a MessageChannel to the target window and send it one end. Posted
+     * through the window like the handshake, so targetOrigin applies. Only the
+     * peer with the lower clientId starts it, so both don't at once.
+     */
+    private upgradeToChannel(origin: string): void {
+        const peerClientId = this.protocol?.peerClientId;
+        if (this.channelPort || !this.isActive || !this.supports(RPC_CAPABILITIES.MESSAGE_CHANNEL) || !this.canUseChannel() ||
+            !peerClientId || !(this.config.clientId < peerClientId)) {
+            return;
+        }
+        const channel = new (globalThis as any).MessageChannel();
+        this.attachChannel(channel.port1, origin);
+        const envelope: BotDojoPostMessage = {
+            type: 'botdojo-channel',
+            payload: { clientId: this.config.clientId, port: channel.port2 },
+            timestamp: Date.now()
+        };
+        this.log('Upgrading to MessageChannel', { peerClientId });
+        // the port only goes to the origin the handshake came from
+        const targetOrigin = this.getTargetOrigin();
+        (this.config.targetWindow as any).postMessage(envelope, targetOrigin === '*' && origin !== OPAQUE_ORIGIN ? origin : targetOrigin, [channel.port2]);
+    }
+
+    /**
+     * Take the channel the target window sent and tell it, through the window,
+     * that RPC messages go through the channel from now on
+     */
+    private acceptChannel(port: any, origin: string): void {
+        if (!port || typeof port.postMessage !== 'function' || !this.canUseChannel()) {
+            return;
+        }
+        this.closeChannel();
+        this.attachChannel(port, origin);
+        // the initiator only sends through the channel once it has sent it
+        this.channelConfirmed = true;
+        const envelope: BotDojoPostMessage = {
+            type: 'botdojo-channel-ack',
+            payload: { clientId: this.config.clientId },
+            timestamp: Date.now()
+        };
+        this.log('Accepted MessageChannel', { origin });
+        (this.config.targetWindow as any).postMessage(envelope, this.getTargetOrigin());
+    }
+
+    private attachChannel(port: any, origin: string): void {
+        this.channelPort = port;
+        this.channelOrigin = origin;
+        // setting onmessage also starts the port
+        port.onmessage = (event: any) => {
+            const envelope = event.data as BotDojoPostMessage;
+            if (!envelope || typeof envelope !== 'object' || port !== this.channelPort) {
+                return;
+            }
+            this.handleRPCEnvelope(envelope, this.channelOrigin);
+        };
+    }
+
+    private closeChannel(): void {
+        if (this.channelPort) {
+            this.channelPort.onmessage = null;
+            this.channelPort.close();
+            this.channelPort = null;
+            this.log('MessageChannel closed');
+        }
+        this.channelOrigin = undefined;
+        this.channelConfirmed = false;
+    }
+    
+    /**
+     * Decompress and verify if needed and handle as normal RPC message, after
+     * any message still being decoded
+     */
+    private receiveEnvelope(envelope: BotDojoPostMessage, origin: string): void {
+        const decoded = this.decodeEnvelope(envelope).then((payload) => this.openPayload(payload));
+        decoded.catch(() => undefined); // reported once its turn comes
+        this.receiveQueue = this.receiveQueue
+            .then(() => decoded)
+            .then((message) => this.handleRPCMessage(message, origin))
+            .catch((error) => {
+                if (error instanceof EnvelopeSecurityError) {
+                    this.logger.warn('Rejected RPC message', { clientId: this.config.clientId, origin, reason: error.reason, error: error.message });
+                } else {
+                    this.log('Failed to decompress message', error);
+                }
+                if (this.config.onError) {
+                    this.config.onError(error);
+                }
+            });
+    }
+    
     /**
      * Handle RPC messages
      */
@@ -498,25 +1121,22 @@ export class PostMessageBridge {
             message.destination = this.config.defaultDestination;
         }
         
-        // Track origin on the message for downstream routing decisions
-        if (origin && !message.origin) {
-            message.origin = origin;
-            this.log('[CORS DEBUG] Attached origin to message', {
+        // Track origin on the message for downstream routing and authorization
+        // decisions. Only the origin the browser reported counts, never one the
+        // sender claimed.
+        if (message.origin && message.origin !== origin) {
+            this.log('[CORS DEBUG] Replacing claimed origin', {
+                claimed: message.origin,
                 origin,
                 functionName: message.functionName,
                 messageId: message.id
             });
-        } else if (message.origin) {
-            this.log('[CORS DEBUG] Message already has origin', {
-                origin: message.origin,
-                functionName: message.functionName,
-                messageId: message.id
-            });
-        } else {
+        }
+        message.origin = origin || undefined;
+        if (!origin) {
             this.log('[CORS DEBUG] WARNING: No origin available for message', {
                 functionName: message.functionName,
-                messageId: message.id,
-                eventOrigin: origin
+                messageId: message.id
             });
         }
         
@@ -575,7 +1195,7 @@ export class PostMessageBridge {
                     method,
                     params,
                 };
-                (this.config.targetWindow as any)?.postMessage(payload, this.config.targetOrigin || '*');
+                (this.config.targetWindow as any)?.postMessage(payload, this.getTargetOrigin());
                 this.log('[MCP-MIRROR] Sent MCP notification', { method, toolName, stepStatus: step.stepStatus, toolPhase: step.toolPhase });
             } catch (err) {
                 this.log('[MCP-MIRROR] Failed to send MCP notification', err);
@@ -622,11 +1242,111 @@ export class PostMessageBridge {
     /**
      * Handle ready messages
      */
-    private handleReadyMessage(payload: any): void {
+    private handleReadyMessage(payload: any, origin: string, fromTarget: boolean): void {
+        const readyMsg = payload as BotDojoReadyMessage;
+        if (readyMsg && Array.isArray(readyMsg.capabilities) && !fromTarget) {
+            // other windows (canvases next to a parent bridge, say) don't negotiate for the target
+            this.log('Ignoring ready message from another window', { clientId: readyMsg.clientId, origin });
+        } else if (readyMsg && Array.isArray(readyMsg.capabilities)) {
+            const legacyPeer = typeof readyMsg.protocolVersion !== 'number';
+            this.peerOrigin = origin;
+            if (readyMsg.sessionId !== this.peerSessionId) {
+                // the target window reloaded or restarted its bridge, its end of the channel is gone
+                this.closeChannel();
+                this.peerSessionId = readyMsg.sessionId;
+            }
+            if (!legacyPeer && !readyMsg.ack) {
+                // answer every fresh ready, the peer may have reloaded
+                this.sendReady(readyMsg.channelId, this.getCapabilities(), true);
+            }
+            const ours = this.getCapabilities();
+            this.setProtocol({
+                protocolVersion: legacyPeer ? 1 : Math.min(readyMsg.protocolVersion, RPC_PROTOCOL_VERSION),
+                capabilities: ours.filter((capability) => readyMsg.capabilities.indexOf(capability) >= 0),
+                peerClientId: readyMsg.clientId,
+                legacy: legacyPeer
+            });
+            if (!legacyPeer) {
+                this.upgradeToChannel(origin);
+            }
+        }
         if (this.config.onReady) {
-            this.config.onReady(payload as BotDojoReadyMessage);
+            this.config.onReady(readyMsg);
         }
     }
+
+    private getCapabilities(): string[] {
+        let capabilities = this.config.capabilities ?? DEFAULT_CAPABILITIES;
+        if (!this.canUseChannel()) {
+            capabilities = capabilities.filter((capability) => capability !== RPC_CAPABILITIES.MESSAGE_CHANNEL);
+        }
+        if (this.config.security) {
+            // signatures cover the JSON text, which transferred values are not part of
+            capabilities = capabilities.filter((capability) => capability !== RPC_CAPABILITIES.TRANSFER);
+            if (isEnvelopeSecurityAvailable()) {
+                capabilities = capabilities.concat(this.config.security.encrypt
+                    ? [RPC_CAPABILITIES.SIGNING, RPC_CAPABILITIES.ENCRYPTION]
+                    : [RPC_CAPABILITIES.SIGNING]);
+            }
+        }
+        if (this.config.enableCompression === false) {
+            return capabilities;
+        }
+        const algorithms = this.config.compressionAlgorithms ?? DEFAULT_COMPRESSION_ALGORITHMS;
+        return capabilities.concat(algorithms.map((algorithm) => RPC_CAPABILITIES.COMPRESSION + algorithm));
+    }
+
+    private setProtocol(protocol: NegotiatedProtocol): void {
+        this.protocol = protocol;
+        this.log('Protocol negotiated', protocol);
+        const waiters = this.protocolWaiters;
+        this.protocolWaiters = [];
+        waiters.forEach((resolve) => resolve(protocol));
+    }
+
+    /**
+     * Announce our protocol version and capabilities and wait for the peer's.
+     * A peer that doesn't answer within handshakeTimeoutMs is assumed to predate
+     * the handshake and gets no optional features.
+     *
+     * Usage:
+     *   const protocol = await bridge.handshake();
+     *   if (bridge.supports(RPC_CAPABILITIES.STREAMING)) { ... }
+     */
+    handshake(channelId?: string): Promise<NegotiatedProtocol> {
+        if (!this.isBrowser) {
+            return Promise.resolve({ protocolVersion: 1, capabilities: [], legacy: true });
+        }
+        if (this.protocol) {
+            return Promise.resolve(this.protocol);
+        }
+        return new Promise<NegotiatedProtocol>((resolve) => {
+            const timer = setTimeout(() => {
+                if (!this.protocol) {
+                    this.setProtocol({ protocolVersion: 1, capabilities: [], legacy: true });
+                }
+            }, this.config.handshakeTimeoutMs ?? 1000);
+            this.protocolWaiters.push((protocol) => {
+                clearTimeout(timer);
+                resolve(protocol);
+            });
+            this.sendReady(channelId, this.getCapabilities());
+        });
+    }
+
+    /**
+     * Result of the handshake, null until it completes
+     */
+    getProtocol(): NegotiatedProtocol | null {
+        return this.protocol;
+    }
+
+    /**
+     * Whether both peers announced `capability`
+     */
+    supports(capability: string): boolean {
+        return this.protocol?.capabilities.indexOf(capability) >= 0;
+    }
     
     /**
      * Handle error messages
@@ -649,26 +1369,36 @@ export class PostMessageBridge {
      */
     updateConfig(config: Partial<PostMessageBridgeConfig>): void {
         this.config = { ...this.config, ...config };
+        if ('originPolicy' in config || 'cors' in config || 'role' in config) {
+            this.originPolicy = this.createOriginPolicy();
+        }
     }
     
     /**
      * Update target window
      */
     updateTargetWindow(targetWindow: any): void {
+        if (targetWindow !== this.config.targetWindow) {
+            // learned again from the new window
+            this.peerOrigin = undefined;
+        }
         this.config.targetWindow = targetWindow;
         this.log('Target window updated');
     }
     
+    /** Where the bridge writes its diagnostics, see PostMessageBridgeConfig.logger */
+    get logger(): RPCLogger {
+        return this.config.logger ?? this.debugLogger ?? getDefaultLogger();
+    }
+
     /**
      * Log helper
      */
     private log(message: string, data?: any): void {
-        if (this.config.debug) {
-            if (data) {
-                console.log(`[PostMessageBridge:${this.config.clientId}] ${message}`, data);
-            } else {
-                console.log(`[PostMessageBridge:${this.config.clientId}] ${message}`);
-            }
+        if (data) {
+            this.logger.debug(message, { clientId: this.config.clientId, data });
+        } else {
+            this.logger.debug(message, { clientId: this.config.clientId });
         }
     }
 
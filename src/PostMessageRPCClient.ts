@@ -1,5 +1,22 @@
-import { IRPC_Client, RPCMessage, RegisterRPCClient, RPCConnection, ConectionOptions } from "./index";
-import { PostMessageBridge } from "./PostMessageBridge";
+import { IRPC_Client, RPCMessage, RegisterRPCClient, RPCConnection, ConectionOptions, RPCCallContext, RPCAuthorizationRule } from "./index";
+import { NegotiatedProtocol, PostMessageBridge, RPC_CAPABILITIES } from "./PostMessageBridge";
+import { EnvelopeSecurityOptions } from "./envelopeSecurity";
+import { RPCLogger } from "./logger";
+import { OriginAuditEvent, OriginPolicyOptions } from "./originPolicy";
+
+/**
+ * Bridge settings a PostMessageRPCClient passes through, see PostMessageBridgeConfig
+ */
+export interface PostMessageRPCClientOptions {
+    /** Sign, and optionally encrypt, RPC payloads */
+    security?: EnvelopeSecurityOptions;
+    /** Origins messages are accepted from, see PostMessageBridgeConfig.originPolicy */
+    originPolicy?: Partial<OriginPolicyOptions>;
+    /** Called whenever the origin policy blocks a message */
+    onOriginBlocked?: (event: OriginAuditEvent) => void;
+    /** Logger for the client and its bridge (default: the console when `debug` is set, getDefaultLogger() otherwise) */
+    logger?: RPCLogger;
+}
 
 /**
  * IRPC_Client implementation using window.postMessage for iframe communication.
@@ -19,6 +36,14 @@ export class PostMessageRPCClient implements IRPC_Client {
     public clientId: string;
     public defaultDestinationId: string;
     public onMessage: (message: RPCMessage) => Promise<void>;
+    /** Result of the ready handshake, set by init() */
+    public protocol: NegotiatedProtocol | null = null;
+    /** Only origins in cors.allowedToolCallOrigins may call handlers, when it is set */
+    public authorizationRules: RPCAuthorizationRule[] = [];
+    /** The bridge stamps every message with the origin the browser reported */
+    public readonly reportsOrigin = true;
+    private ready: Promise<void>;
+    private markReady: () => void;
     
     /**
      * @param targetWindow - Window to communicate with (e.g., window.parent for iframe)
@@ -31,6 +56,7 @@ export class PostMessageRPCClient implements IRPC_Client {
      *               - 'chat': I am the chat iframe → don't validate my own PostMessages
      *               Used to determine which CORS validation rules apply.
      * @param cors - CORS configuration for validating PostMessage origins
+     * @param options - Further bridge settings, such as `security`
      */
     constructor(
         targetWindow: Window,
@@ -41,10 +67,16 @@ export class PostMessageRPCClient implements IRPC_Client {
         cors?: {
             botdojoChatDomain?: string[];
             allowedToolCallOrigins?: string[];
-        }
+        },
+        options?: PostMessageRPCClientOptions
     ) {
         this.clientId = funcInfo.clientId;
         this.defaultDestinationId = funcInfo.defaultDestinationId;
+        if (cors?.allowedToolCallOrigins) {
+            this.authorizationRules.push({ functionName: '*', origins: cors.allowedToolCallOrigins });
+        }
+        // messages sent before the handshake completes wait here
+        this.ready = new Promise<void>((resolve) => (this.markReady = resolve));
         
         // Create PostMessageBridge with message forwarding to RPCConnection
         this.bridge = new PostMessageBridge({
@@ -54,6 +86,10 @@ export class PostMessageRPCClient implements IRPC_Client {
             debug,
             role,
             cors,
+            security: options?.security,
+            logger: options?.logger,
+            originPolicy: options?.originPolicy,
+            onOriginBlocked: options?.onOriginBlocked,
             onMessage: async (msg: RPCMessage) => {
                 // Forward incoming RPC messages to RPCConnection's handler
                 if (this.onMessage) {
@@ -61,12 +97,10 @@ export class PostMessageRPCClient implements IRPC_Client {
                 }
             },
             onReady: (readyMsg) => {
-                if (debug) {
-                    console.log(`[PostMessageRPCClient:${this.clientId}] Remote ready:`, readyMsg);
-                }
+                this.bridge.logger.debug('Remote ready', { clientId: this.clientId, data: readyMsg });
             },
             onError: (error) => {
-                console.error(`[PostMessageRPCClient:${this.clientId}] Error:`, error);
+                this.bridge.logger.error('PostMessage bridge error', { clientId: this.clientId, error });
             }
         });
     }
@@ -83,11 +117,31 @@ export class PostMessageRPCClient implements IRPC_Client {
      */
     async init(): Promise<void> {
         this.bridge.start();
-        // Send ready message to establish connection
-        this.bridge.sendReady(undefined, ['rpc-client']);
-        
-        // Wait a bit for handshake (optional, but helps with reliability)
-        await new Promise(resolve => setTimeout(resolve, 100));
+        // Exchange protocol version and capabilities with the other window
+        this.protocol = await this.bridge.handshake();
+        this.markReady();
+    }
+    
+    /**
+     * Whether both windows support `capability`, see RPC_CAPABILITIES
+     */
+    supports(capability: string): boolean {
+        return this.bridge.supports(capability);
+    }
+    
+    /**
+     * Binary values and MessagePorts go through postMessage as they are once
+     * the peer has announced it can decode them
+     */
+    supportsTransfer(): boolean {
+        return this.supports(RPC_CAPABILITIES.TRANSFER);
+    }
+    
+    /**
+     * Peers that predate notifications answer them like any request
+     */
+    supportsNotifications(): boolean {
+        return this.supports(RPC_CAPABILITIES.NOTIFICATIONS);
     }
     
     /**
@@ -101,7 +155,12 @@ export class PostMessageRPCClient implements IRPC_Client {
      * Send an RPC message via postMessage
      */
     async sendMessage(message: RPCMessage): Promise<any> {
-        this.bridge.sendMessage(message);
+        await this.ready;
+        if (message.headers && !this.supports(RPC_CAPABILITIES.HEADERS)) {
+            const { headers, ...withoutHeaders } = message;
+            message = withoutHeaders as RPCMessage;
+        }
+        await this.bridge.sendMessage(message);
     }
 }
 
@@ -115,6 +174,7 @@ export class PostMessageRPCClient implements IRPC_Client {
  * @param receiverId - Client ID for the other side
  * @param onMessage - Message handler for incoming requests
  * @param options - Connection options (timeout, etc.)
+ * @param clientOptions - Bridge settings, such as `security`
  * 
  * @example
  * const connection = await getPostMessageConnection(
@@ -136,8 +196,9 @@ export async function getPostMessageConnection(
     channel: string,
     senderId: string,
     receiverId: string,
-    onMessage: (msg: RPCMessage) => Promise<any>,
-    options?: ConectionOptions
+    onMessage: (msg: RPCMessage, context?: RPCCallContext) => Promise<any>,
+    options?: ConectionOptions,
+    clientOptions?: PostMessageRPCClientOptions
 ): Promise<RPCConnection> {
     const client = new PostMessageRPCClient(
         targetWindow,
@@ -148,7 +209,10 @@ export async function getPostMessageConnection(
             baseChannel: channel
         },
         '*',
-        true // Enable debug for now
+        true, // Enable debug for now
+        undefined,
+        undefined,
+        clientOptions
     );
     
     const connection = new RPCConnection(client, options || new ConectionOptions(), onMessage);
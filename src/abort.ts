@@ -1,5 +1,5 @@
 
-import { getBaseChannel, IBotDojoRpcContext, IRPC_Client, RPCMessage } from '.';
+import { getBaseChannel, getDefaultLogger, IBotDojoRpcContext, IRPC_Client, RPCMessage, RPCMessageError } from '.';
 
 /**
  * Cache the crypto module reference at load time to avoid repeated checks
@@ -123,8 +123,8 @@ export class AbortHandler {
                             me._client.sendMessage(new RPCMessage(msg.source, '*', 'response', '*', { type: 'barged-in', success: true, message: data.reason, data: null }));
                         }
                         catch (e) {
-                            console.error(e);
-                            this._client.sendMessage(new RPCMessage(msg.source, '*', 'response', '*', { type: 'error', success: false, message: e, data: null }));
+                            getDefaultLogger().error('Barge-in listener failed', { clientId: me._client.clientId, source: msg.source, error: e });
+                            this._client.sendMessage(new RPCMessage(msg.source, '*', 'response', '*', { type: 'error', success: false, message: String(e?.message ?? e), data: new RPCMessageError(e) }));
                         }
                     }
                     else if (data.type == 'hydrate') {
@@ -149,8 +149,8 @@ export class AbortHandler {
                             me._client.sendMessage(new RPCMessage(msg.source, '*', 'response', '*', { type: 'aborted', success: true, message: data.reason, data: null }));
                         }
                         catch (e) {
-                            console.error(e);
-                            this._client.sendMessage(new RPCMessage(msg.source, '*', 'response', '*', { type: 'error', success: false, message: e, data: null }));
+                            getDefaultLogger().error('Abort listener failed', { clientId: me._client.clientId, source: msg.source, error: e });
+                            this._client.sendMessage(new RPCMessage(msg.source, '*', 'response', '*', { type: 'error', success: false, message: String(e?.message ?? e), data: new RPCMessageError(e) }));
                         }
 
                     }
@@ -158,12 +158,12 @@ export class AbortHandler {
 
                 }
                 else {
-                    console.debug("Ignoring message because for destination ", msg.destination)
+                    getDefaultLogger().debug('Ignoring message for another client', { clientId: me._client.clientId, destination: msg.destination });
                 }
             }
             catch (e) {
-                console.error(e);
-                throw "Error sending Message " + this.channel + " " + e;
+                getDefaultLogger().error('Error handling abort message', { clientId: me._client.clientId, channel: this.channel, error: e });
+                throw new RPCMessageError({ message: "Error sending Message " + this.channel + " " + e, cause: e }, "SEND_FAILED");
             }
 
         }
@@ -204,7 +204,7 @@ export class AbortHandler {
             }
         }
         catch (e) {
-            console.error("Error stop listening in AbortHandler:", e);
+            getDefaultLogger().error('Error stop listening in AbortHandler', { channel: this.channel, error: e });
         }
         await this._client.close();
     }
@@ -273,12 +273,12 @@ export class AbortRequestor {
                     //this._client.sendMessage(new RPCMessage(msg.source, 'server', 'response', '*', response));
                 }
                 else {
-                    console.debug("Ignoring message because for destination ", msg.destination)
+                    getDefaultLogger().debug('Ignoring message for another client', { clientId: this._client.clientId, destination: msg.destination });
                 }
             }
             catch (e) {
-                console.error(e);
-                throw "Error sending Message " + this.channel + " " + e;
+                getDefaultLogger().error('Error handling abort response', { clientId: this._client.clientId, channel: this.channel, error: e });
+                throw new RPCMessageError({ message: "Error sending Message " + this.channel + " " + e, cause: e }, "SEND_FAILED");
             }
 
         }
@@ -292,7 +292,7 @@ export class AbortRequestor {
                 this._reject = null;
             }
         } catch (e) {
-            console.error("Error closing AbortRequestor:", e);
+            getDefaultLogger().error('Error closing AbortRequestor', { channel: this.channel, error: e });
         }
     }
     async _sendMessage(message: AbortRequestMessage, timeout: number): Promise<AbortResponseMessage> {
@@ -316,12 +316,12 @@ export class AbortRequestor {
 
                         resolve(value);
                     } else {
-                        console.debug("Ignoring message because already responded")
+                        getDefaultLogger().debug('Ignoring message because already responded', { channel: this.channel });
                     }
                 }
                 await this._client.sendMessage(new RPCMessage(this._client.clientId, 'server', 'request', '*', message));
             } catch (e) {
-                console.error(e);
+                getDefaultLogger().error('Error sending abort request', { clientId: this._client.clientId, channel: this.channel, error: e });
                 // throw "Error sending Message " + this.channel + " " + e;
                 reject(e);
             }
@@ -337,7 +337,7 @@ export class AbortRequestor {
     }
 
     async sendBargeInRequest(reason: string, timeout: number): Promise<AbortResponseMessage> {
-        console.log("Sending barge in request");
+        getDefaultLogger().debug('Sending barge in request', { channel: this.channel });
         return this._sendMessage({ type: 'barge-in', reason: reason }, timeout);
     }
     async sendHydrateRequest(timeout: number): Promise<AbortResponseMessage> {
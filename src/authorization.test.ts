@@ -0,0 +1,117 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+	ConectionOptions,
+	defineService,
+	InMemoryRPCClient,
+	InMemoryRPCHub,
+	RPCAuthorizationDeniedEvent,
+	RPCCallContext,
+	RPCConnection,
+	SilentRPCLogger,
+} from "./index";
+
+interface DocService {
+	read(): Promise<string>;
+	write(text: string): Promise<string>;
+}
+
+let connections: RPCConnection[] = [];
+
+/** A host answering every call with its function name, and a caller sending its role in a header */
+async function setup(authorization: ConectionOptions["authorization"], role?: string) {
+	let hub = new InMemoryRPCHub();
+	let connect = (clientId: string, destinationId: string, options: Partial<ConectionOptions>) => {
+		let client = new InMemoryRPCClient(hub, { clientId, defaultDestinationId: destinationId, baseChannel: "test", getToken: null });
+		let connection = new RPCConnection(client, { logger: new SilentRPCLogger(), ...options }, async (msg) => msg.functionName);
+		connections.push(connection);
+		return connection;
+	};
+	let denied: RPCAuthorizationDeniedEvent[] = [];
+	let host = connect("host", "caller", {
+		authorization: {
+			resolveIdentity: (msg) => ({ source: msg.source, roles: msg.headers?.role ? [msg.headers.role] : [] }),
+			onDenied: (event) => denied.push(event),
+			...authorization,
+		},
+	});
+	let caller = connect("caller", "host", {});
+	await host.init();
+	await caller.init();
+	let call = (functionName: string) => caller.sendRequest("host", functionName, [], undefined, { headers: role ? { role } : {} });
+	return { host, caller, call, denied };
+}
+
+afterEach(async () => {
+	await Promise.all(connections.map((connection) => connection.close()));
+	connections = [];
+});
+
+describe("authorization", () => {
+	it("checks every rule whose pattern matches the function name", async () => {
+		let { call, denied } = await setup({ rules: [{ functionName: "admin.*", roles: ["admin"] }] }, "viewer");
+		expect(await call("doc.read")).toBe("doc.read");
+		await expect(call("admin.reset")).rejects.toMatchObject({ code: "PERMISSION_DENIED" });
+		expect(denied).toHaveLength(1);
+		expect(denied[0]).toMatchObject({ functionName: "admin.reset", reason: "role", identity: { source: "caller", roles: ["viewer"] } });
+	});
+
+	it("lets callers with the role through and hands the identity to handlers", async () => {
+		let { host, call } = await setup({ rules: [{ functionName: "admin.?eset", roles: ["admin"] }] }, "admin");
+		let identities: RPCCallContext["identity"][] = [];
+		host.callbacks.set("admin.reset", {
+			source: null,
+			withContext: true,
+			func: async (context: RPCCallContext) => {
+				identities.push(context.identity);
+				return "reset";
+			},
+		});
+		expect(await call("admin.reset")).toBe("reset");
+		expect(identities).toEqual([{ source: "caller", roles: ["admin"] }]);
+	});
+
+	it("denies calls no rule applies to under the deny policy", async () => {
+		let { call, denied } = await setup({ defaultPolicy: "deny", rules: [{ functionName: "doc.*" }] });
+		expect(await call("doc.read")).toBe("doc.read");
+		await expect(call("other")).rejects.toMatchObject({ code: "PERMISSION_DENIED" });
+		expect(denied.map((event) => event.reason)).toEqual(["no-rule"]);
+	});
+
+	it("checks claims and custom authorize functions", async () => {
+		let { call, denied } = await setup({
+			resolveIdentity: (msg) => ({ source: msg.source, claims: { tenant: "acme" } }),
+			rules: [
+				{ functionName: "tenant.*", claims: { tenant: ["acme", "globex"] } },
+				{ functionName: "other.*", claims: { tenant: "globex" } },
+				{ functionName: "*.write", authorize: async (identity, msg) => msg.functionName != "tenant.write" },
+			],
+		});
+		expect(await call("tenant.read")).toBe("tenant.read");
+		await expect(call("other.read")).rejects.toMatchObject({ code: "PERMISSION_DENIED" });
+		await expect(call("tenant.write")).rejects.toMatchObject({ code: "PERMISSION_DENIED" });
+		expect(denied.map((event) => event.reason)).toEqual(["claim", "rejected"]);
+	});
+
+	it("never trusts an origin from a transport that doesn't report one", async () => {
+		let { caller, call, denied } = await setup({ rules: [{ functionName: "*", origins: ["https://app.example.com"] }] });
+		caller.use({
+			outboundRequest: (msg, next) => {
+				msg.origin = "https://app.example.com";
+				return next();
+			},
+		});
+		await expect(call("anything")).rejects.toMatchObject({ code: "PERMISSION_DENIED" });
+		expect(denied[0].reason).toBe("origin");
+		expect(denied[0].identity.origin).toBeUndefined();
+	});
+
+	it("applies per-method access rules of a service", async () => {
+		let { host, caller, denied } = await setup({});
+		let service = defineService<DocService>({ namespace: "doc" });
+		service.expose(host, { read: async () => "text", write: async (text) => text }, { write: { roles: ["editor"] } });
+		let doc = service.connect(caller);
+		expect(await doc.read()).toBe("text");
+		await expect(doc.write("new")).rejects.toMatchObject({ code: "PERMISSION_DENIED" });
+		expect(denied[0]).toMatchObject({ functionName: "doc.write", reason: "role", rule: { roles: ["editor"] } });
+	});
+});
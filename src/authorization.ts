@@ -0,0 +1,187 @@
+import type { RPCMessage } from "./index";
+import { OriginPolicy } from "./originPolicy";
+
+/**
+ * Who is calling: the peer's client id, the origin the transport received the
+ * call from, and whatever resolveIdentity found out about it, such as roles or
+ * claims from a token in the request headers
+ */
+export interface RPCCallerIdentity {
+	source: string;
+	origin?: string;
+	roles?: string[];
+	claims?: { [claim: string]: any };
+}
+
+/**
+ * Conditions a caller has to meet. Every condition that is set must hold:
+ *
+ * - `origins`: the call arrived from one of these origins, as OriginPattern entries
+ * - `roles`: the caller has at least one of these roles
+ * - `claims`: each claim equals the given value, or one of the values of an array
+ * - `authorize`: custom check, return false to deny
+ *
+ * Calls from transports that don't report an origin never match `origins`.
+ */
+export interface RPCAccessRule {
+	origins?: string[];
+	roles?: string[];
+	claims?: { [claim: string]: any };
+	authorize?: (identity: RPCCallerIdentity, message: RPCMessage) => boolean | Promise<boolean>;
+}
+
+/**
+ * An access rule for the functions whose name matches `functionName`, where
+ * `*` matches any run of characters and `?` a single one, e.g. "canvas.*"
+ */
+export interface RPCAuthorizationRule extends RPCAccessRule {
+	functionName: string;
+}
+
+export type RPCAuthorizationDenyReason = "origin" | "role" | "claim" | "rejected" | "no-rule";
+
+/**
+ * Emitted whenever a call is denied, for audit logs
+ */
+export interface RPCAuthorizationDeniedEvent {
+	functionName: string;
+	messageId: string;
+	identity: RPCCallerIdentity;
+	reason: RPCAuthorizationDenyReason;
+	/** The rule that denied the call, unset for "no-rule" */
+	rule?: RPCAccessRule;
+	timestamp: number;
+}
+
+export class RPCAuthorizationOptions {
+	/** Rules checked for every incoming request, see RPCAuthorizationRule */
+	rules?: RPCAuthorizationRule[] = [];
+	/** What happens to calls no rule and no per-function access rule applies to (default: "allow") */
+	defaultPolicy?: "allow" | "deny" = "allow";
+	/** Look up the roles and claims of a caller, e.g. by verifying a token from message.headers */
+	resolveIdentity?: (message: RPCMessage) => RPCCallerIdentity | Promise<RPCCallerIdentity>;
+	/** Called for every denied call */
+	onDenied?: (event: RPCAuthorizationDeniedEvent) => void;
+}
+
+function compileFunctionPattern(pattern: string): RegExp {
+	let source = pattern
+		.split("")
+		.map((c) => (c == "*" ? ".*" : c == "?" ? "." : c.replace(/[.+^${}()|[\]\\]/g, "\\$&")))
+		.join("");
+	return new RegExp("^" + source + "$");
+}
+
+class CompiledRule {
+	functionName: RegExp;
+	origins: OriginPolicy | null;
+	constructor(public rule: RPCAccessRule, functionName?: string) {
+		this.functionName = compileFunctionPattern(functionName ?? "*");
+		this.origins = rule.origins ? new OriginPolicy({ allowedOrigins: rule.origins }) : null;
+	}
+	async check(identity: RPCCallerIdentity, message: RPCMessage): Promise<RPCAuthorizationDenyReason | null> {
+		if (this.origins && (identity.origin === undefined || !this.origins.isAllowed(identity.origin))) {
+			return "origin";
+		}
+		if (this.rule.roles && !this.rule.roles.some((role) => identity.roles?.indexOf(role) >= 0)) {
+			return "role";
+		}
+		if (this.rule.claims) {
+			for (let claim of Object.keys(this.rule.claims)) {
+				let expected = this.rule.claims[claim];
+				let actual = identity.claims?.[claim];
+				if (actual === undefined || (Array.isArray(expected) ? expected.indexOf(actual) < 0 : expected !== actual)) {
+					return "claim";
+				}
+			}
+		}
+		if (this.rule.authorize && !(await this.rule.authorize(identity, message))) {
+			return "rejected";
+		}
+		return null;
+	}
+}
+
+/**
+ * Decides which incoming requests may reach their handler. A call is allowed
+ * when every rule matching its function name allows it, and so does the access
+ * rule the handler was registered with. Calls nothing applies to follow
+ * defaultPolicy.
+ *
+ * Usage:
+ *   const authorizer = new RPCAuthorizer({
+ *     rules: [
+ *       { functionName: 'canvas.*', origins: ['https://*.botdojo.com'] },
+ *       { functionName: 'admin.*', roles: ['admin'] },
+ *     ],
+ *     resolveIdentity: (msg) => ({ source: msg.source, origin: msg.origin, roles: rolesFromToken(msg.headers?.authorization) }),
+ *   });
+ *   const denied = await authorizer.authorize(msg); // null when allowed
+ */
+export class RPCAuthorizer {
+	options: RPCAuthorizationOptions;
+	private rules: CompiledRule[];
+	private accessRules = new WeakMap<RPCAccessRule, CompiledRule>();
+	constructor(options?: Partial<RPCAuthorizationOptions>) {
+		this.options = { ...new RPCAuthorizationOptions(), ...options };
+		this.rules = (this.options.rules ?? []).map((rule) => new CompiledRule(rule, rule.functionName));
+	}
+	/** Add a rule after the configured ones */
+	addRule(rule: RPCAuthorizationRule): this {
+		this.rules.push(new CompiledRule(rule, rule.functionName));
+		return this;
+	}
+	async getIdentity(message: RPCMessage): Promise<RPCCallerIdentity> {
+		if (this.options.resolveIdentity) {
+			return { source: message.source, origin: message.origin, ...(await this.options.resolveIdentity(message)) };
+		}
+		return { source: message.source, origin: message.origin };
+	}
+	/**
+	 * Check a request against the rules and the handler's own `access` rule,
+	 * resolving the caller's identity unless it is given. Returns the denial,
+	 * already reported to onDenied, or null when the call may proceed.
+	 */
+	async authorize(
+		message: RPCMessage,
+		access?: RPCAccessRule,
+		identity?: RPCCallerIdentity,
+	): Promise<RPCAuthorizationDeniedEvent | null> {
+		let applicable = this.rules.filter((rule) => rule.functionName.test(message.functionName));
+		if (access) {
+			let compiled = this.accessRules.get(access);
+			if (!compiled) {
+				compiled = new CompiledRule(access);
+				this.accessRules.set(access, compiled);
+			}
+			applicable.push(compiled);
+		}
+		identity = identity ?? (await this.getIdentity(message));
+		let denied: RPCAuthorizationDeniedEvent | null = null;
+		if (applicable.length == 0) {
+			if (this.options.defaultPolicy == "deny") {
+				denied = this.deniedEvent(message, identity, "no-rule");
+			}
+		} else {
+			for (let rule of applicable) {
+				let reason = await rule.check(identity, message);
+				if (reason) {
+					denied = this.deniedEvent(message, identity, reason, rule.rule);
+					break;
+				}
+			}
+		}
+		if (denied && this.options.onDenied) {
+			this.options.onDenied(denied);
+		}
+		return denied;
+	}
+	private deniedEvent(
+		message: RPCMessage,
+		identity: RPCCallerIdentity,
+		reason: RPCAuthorizationDenyReason,
+		rule?: RPCAccessRule,
+	): RPCAuthorizationDeniedEvent {
+		return { functionName: message.functionName, messageId: message.id, identity, reason, rule, timestamp: Date.now() };
+	}
+}
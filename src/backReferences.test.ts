@@ -0,0 +1,96 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { InMemoryRPCClient, InMemoryRPCHub, RPCConnection, SilentRPCLogger } from "./index";
+
+let connections: RPCConnection[] = [];
+
+/** Two connections over a hub that serializes messages, the host echoing its arguments */
+async function setup() {
+	let hub = new InMemoryRPCHub({ serialize: true });
+	let connect = (clientId: string, destinationId: string) => {
+		let client = new InMemoryRPCClient(hub, { clientId, defaultDestinationId: destinationId, baseChannel: "test", getToken: null });
+		let connection = new RPCConnection(client, { logger: new SilentRPCLogger() });
+		connections.push(connection);
+		return connection;
+	};
+	let host = connect("host", "caller");
+	let caller = connect("caller", "host");
+	let received: any[][] = [];
+	host.callbacks.set("echo", {
+		source: null,
+		func: async (...args: any[]) => {
+			received.push(args);
+			return args[0];
+		},
+	});
+	await host.init();
+	await caller.init();
+	let echo = (...args: any[]) => caller.sendRequest("host", "echo", args);
+	return { host, caller, echo, received };
+}
+
+afterEach(async () => {
+	await Promise.all(connections.map((connection) => connection.close()));
+	connections = [];
+});
+
+describe("back-references", () => {
+	it("keeps shared objects shared", async () => {
+		let { echo, received } = await setup();
+		let shared = { name: "shared", tags: ["a"] };
+		let result = await echo({ first: shared, second: shared, list: [shared, { inner: shared }] }, shared);
+		let [value, other] = received[0];
+		expect(value.first).toEqual(shared);
+		expect(value.second).toBe(value.first);
+		expect(value.list[0]).toBe(value.first);
+		expect(value.list[1].inner).toBe(value.first);
+		expect(other).toBe(value.first);
+		expect(result.second).toBe(result.first);
+	});
+
+	it("sends parent and child links", async () => {
+		let { echo } = await setup();
+		let parent: any = { name: "parent", children: [] };
+		parent.children.push({ name: "a", parent }, { name: "b", parent });
+		parent.self = parent;
+		let result = await echo(parent);
+		expect(result.self).toBe(result);
+		expect(result.children.map((child: any) => child.name)).toEqual(["a", "b"]);
+		expect(result.children.every((child: any) => child.parent === result)).toBe(true);
+	});
+
+	it("sends arrays, maps and sets that contain themselves", async () => {
+		let { echo } = await setup();
+		let list: any[] = [1];
+		list.push(list);
+		let map = new Map<any, any>();
+		map.set("self", map);
+		map.set(map, "as a key");
+		let set = new Set<any>();
+		set.add(set);
+		let result = await echo({ list, map, set });
+		expect(result.list[1]).toBe(result.list);
+		expect(result.map.get("self")).toBe(result.map);
+		expect(result.map.get(result.map)).toBe("as a key");
+		expect(Array.from(result.set)[0]).toBe(result.set);
+	});
+
+	it("shares objects between the values of a map and the rest of the payload", async () => {
+		let { echo } = await setup();
+		let user = { id: 7 };
+		let result = await echo({ owner: user, byId: new Map([[7, user]]), members: new Set([user]) });
+		expect(result.byId.get(7)).toBe(result.owner);
+		expect(Array.from(result.members)[0]).toBe(result.owner);
+	});
+
+	it("exports a function of a shared object once", async () => {
+		let { echo, received, caller } = await setup();
+		let calls = 0;
+		let shared = { count: async () => ++calls };
+		await echo({ a: shared, b: shared });
+		let [value] = received[0];
+		expect(value.b).toBe(value.a);
+		expect(await value.a.count()).toBe(1);
+		expect(await value.b.count()).toBe(2);
+		expect(caller.getCallbackStats().exported).toBe(1);
+	});
+});
@@ -0,0 +1,71 @@
+import type { RPCConnection } from "./index";
+
+/**
+ * How long a function passed in an argument or result stays callable by the peer:
+ * - "persistent": until released by the peer or the connection closes (default)
+ * - "once": removed after its first call
+ * - "request": removed when the request whose arguments carried it completes.
+ *   Functions in results have no such request and are treated as persistent.
+ */
+export type RPCCallbackLifetime = "persistent" | "once" | "request";
+
+/** Reserved function name of the control message that releases exported callbacks */
+export const RPC_RELEASE_FUNCTION = "___release";
+
+export class CallbackOptions {
+	lifetime?: RPCCallbackLifetime;
+}
+
+export class CallbackStats {
+	/** Every entry in the callbacks map */
+	total: number = 0;
+	/** Named handlers registered with callbacks.set */
+	handlers: number = 0;
+	/** Requests waiting for a response */
+	pendingResponses: number = 0;
+	/** Functions exported to peers in arguments or results */
+	exported: number = 0;
+	exportedByLifetime: { [lifetime in RPCCallbackLifetime]: number } = { persistent: 0, once: 0, request: 0 };
+	/** Creation time of the oldest exported function still alive, to spot leaks */
+	oldestExportedAt?: number;
+}
+
+const callbackOptions: WeakMap<Function, CallbackOptions> = new WeakMap<Function, CallbackOptions>();
+
+class RemoteCallbackRef {
+	constructor(public connection: RPCConnection, public destination: string, public id: string) { }
+}
+const remoteCallbacks: WeakMap<Function, RemoteCallbackRef> = new WeakMap<Function, RemoteCallbackRef>();
+
+/**
+ * Mark a function with a lifetime before passing it to a remote call.
+ *
+ * Usage:
+ *   await connection.sendRequest('host', 'runTool', [args, { onProgress: rpcCallback(onProgress, { lifetime: 'request' }) }]);
+ */
+export function rpcCallback<T extends Function>(func: T, options: CallbackOptions): T {
+	callbackOptions.set(func, options);
+	return func;
+}
+
+export function getCallbackOptions(func: Function): CallbackOptions | undefined {
+	return callbackOptions.get(func);
+}
+
+export function trackRemoteCallback(func: Function, connection: RPCConnection, destination: string, id: string) {
+	remoteCallbacks.set(func, new RemoteCallbackRef(connection, destination, id));
+}
+
+/**
+ * Tell the peer that a function it sent us will not be called again, so it can
+ * drop it. Returns false when the function is not a remote callback.
+ */
+export function releaseRemoteCallback(func: Function): boolean {
+	let ref = remoteCallbacks.get(func);
+	if (!ref) {
+		return false;
+	}
+	remoteCallbacks.delete(func);
+	ref.connection.releaseRemoteCallbacks(ref.destination, [ref.id]);
+	return true;
+}
@@ -0,0 +1,107 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+	createAbortController,
+	InMemoryRPCClient,
+	InMemoryRPCHub,
+	RPC_CANCEL_FUNCTION,
+	RPCCallContext,
+	RPCConnection,
+	RPCMessage,
+	SilentRPCLogger,
+} from "./index";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+let connections: RPCConnection[] = [];
+
+/** A caller and a host whose "wait" handler runs until its signal aborts, reporting why */
+async function setup() {
+	let hub = new InMemoryRPCHub();
+	let connect = (clientId: string, destinationId: string) => {
+		let client = new InMemoryRPCClient(hub, { clientId, defaultDestinationId: destinationId, baseChannel: "test", getToken: null });
+		let connection = new RPCConnection(client, { logger: new SilentRPCLogger() });
+		connections.push(connection);
+		return connection;
+	};
+	let host = connect("host", "caller");
+	let caller = connect("caller", "host");
+	let started: RPCCallContext[] = [];
+	let cancelled: string[] = [];
+	host.callbacks.set("wait", {
+		source: null,
+		withContext: true,
+		func: async (ms: number, context: RPCCallContext) => {
+			started.push(context);
+			await new Promise((resolve) => {
+				let timer = setTimeout(resolve, ms);
+				context.signal.addEventListener("abort", () => {
+					clearTimeout(timer);
+					cancelled.push(String(context.signal.reason));
+					resolve(undefined);
+				});
+			});
+			return "done";
+		},
+	});
+	await host.init();
+	await caller.init();
+	return { hub, host, caller, started, cancelled };
+}
+
+afterEach(async () => {
+	await Promise.all(connections.map((connection) => connection.close()));
+	connections = [];
+});
+
+describe("cancellation", () => {
+	it("cancels the remote handler when the caller aborts", async () => {
+		let { caller, started, cancelled } = await setup();
+		let controller = createAbortController();
+		let request = caller.sendRequest("host", "wait", [1000], undefined, { signal: controller.signal });
+		await sleep(10);
+		expect(started).toHaveLength(1);
+		controller.abort("user pressed stop");
+		await expect(request).rejects.toMatchObject({ code: "ABORTED", message: "user pressed stop" });
+		await sleep(10);
+		expect(cancelled).toEqual(["user pressed stop"]);
+		expect(caller.getCallbackStats().pendingResponses).toBe(0);
+	});
+
+	it("doesn't send a request whose signal already aborted", async () => {
+		let { caller, started } = await setup();
+		let controller = createAbortController();
+		controller.abort("too late");
+		await expect(caller.sendRequest("host", "wait", [10], undefined, { signal: controller.signal })).rejects.toMatchObject({
+			code: "ABORTED",
+		});
+		await sleep(10);
+		expect(started).toEqual([]);
+	});
+
+	it("cancels the remote handler when the request times out", async () => {
+		let { caller, cancelled } = await setup();
+		await expect(caller.sendRequest("host", "wait", [1000], 20)).rejects.toMatchObject({ code: "TIMEOUT" });
+		await sleep(10);
+		expect(cancelled).toHaveLength(1);
+	});
+
+	it("ignores cancel messages from other peers", async () => {
+		let { hub, caller, started, cancelled } = await setup();
+		let intruder = new InMemoryRPCClient(hub, { clientId: "intruder", defaultDestinationId: "host", baseChannel: "test", getToken: null });
+		await intruder.init();
+		let request = caller.sendRequest("host", "wait", [30]);
+		await sleep(10);
+		await intruder.sendMessage(RPCMessage.request("intruder", "host", RPC_CANCEL_FUNCTION, [started[0].message.id, "hijacked"]));
+		expect(await request).toBe("done");
+		expect(cancelled).toEqual([]);
+		await intruder.close();
+	});
+
+	it("aborts running handlers when the connection closes", async () => {
+		let { host, caller, cancelled } = await setup();
+		caller.sendRequest("host", "wait", [1000]).catch(() => undefined);
+		await sleep(10);
+		await host.close();
+		expect(cancelled).toEqual(["Connection closed"]);
+	});
+});
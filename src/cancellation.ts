@@ -0,0 +1,64 @@
+/**
+ * The part of the standard AbortSignal that RPCConnection relies on.
+ * A DOM/Node AbortSignal satisfies it, so callers can pass `controller.signal` directly.
+ */
+export interface RPCAbortSignal {
+	readonly aborted: boolean;
+	readonly reason?: any;
+	addEventListener(type: "abort", listener: () => void, options?: { once?: boolean }): void;
+	removeEventListener(type: "abort", listener: () => void): void;
+}
+
+export interface RPCAbortController {
+	readonly signal: RPCAbortSignal;
+	abort(reason?: any): void;
+}
+
+class FallbackAbortSignal implements RPCAbortSignal {
+	aborted: boolean = false;
+	reason: any = undefined;
+	private listeners: Array<() => void> = [];
+	addEventListener(type: "abort", listener: () => void) {
+		this.listeners.push(listener);
+	}
+	removeEventListener(type: "abort", listener: () => void) {
+		this.listeners = this.listeners.filter((l) => l !== listener);
+	}
+	dispatch(reason: any) {
+		if (this.aborted) {
+			return;
+		}
+		this.aborted = true;
+		this.reason = reason;
+		let listeners = this.listeners;
+		this.listeners = [];
+		listeners.forEach((l) => l());
+	}
+}
+
+/**
+ * Create an AbortController, using the runtime's own when it has one so the
+ * signal can be handed to fetch() and friends.
+ */
+export function createAbortController(): RPCAbortController {
+	let AbortControllerCtor = (globalThis as any).AbortController;
+	if (AbortControllerCtor) {
+		return new AbortControllerCtor();
+	}
+	let signal = new FallbackAbortSignal();
+	return {
+		signal,
+		abort: (reason?: any) => signal.dispatch(reason ?? new Error("This operation was aborted")),
+	};
+}
+
+export function getAbortReasonMessage(signal: RPCAbortSignal): string {
+	let reason = signal?.reason;
+	if (reason === undefined || reason === null) {
+		return "Request aborted";
+	}
+	if (typeof reason == "string") {
+		return reason;
+	}
+	return reason.message ?? String(reason);
+}
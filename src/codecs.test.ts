@@ -0,0 +1,134 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { InMemoryRPCClient, InMemoryRPCHub, registerValueCodec, RPCConnection, SilentRPCLogger, unregisterValueCodec } from "./index";
+
+class Money {
+	constructor(public amount: bigint, public currency: string) { }
+	format() {
+		return this.amount + " " + this.currency;
+	}
+}
+
+let connections: RPCConnection[] = [];
+
+/** Two connections over a hub that serializes messages, the host echoing what it gets */
+async function setup() {
+	let hub = new InMemoryRPCHub({ serialize: true });
+	let connect = (clientId: string, destinationId: string) => {
+		let client = new InMemoryRPCClient(hub, { clientId, defaultDestinationId: destinationId, baseChannel: "test", getToken: null });
+		let connection = new RPCConnection(client, { logger: new SilentRPCLogger() });
+		connections.push(connection);
+		return connection;
+	};
+	let host = connect("host", "caller");
+	let caller = connect("caller", "host");
+	let received: any[] = [];
+	host.callbacks.set("echo", {
+		source: null,
+		func: async (value: any) => {
+			received.push(value);
+			return value;
+		},
+	});
+	await host.init();
+	await caller.init();
+	let echo = (value: any) => caller.sendRequest("host", "echo", [value]);
+	return { host, caller, echo, received };
+}
+
+afterEach(async () => {
+	await Promise.all(connections.map((connection) => connection.close()));
+	connections = [];
+	unregisterValueCodec("Money");
+});
+
+describe("value codecs", () => {
+	it("sends dates, bigints and undefined as they are", async () => {
+		let { echo, received } = await setup();
+		let value = { at: new Date(Date.UTC(2024, 1, 29, 12)), never: new Date(NaN), big: 2n ** 70n, missing: undefined, list: [1, undefined, 3] };
+		let result = await echo(value);
+		for (let copy of [received[0], result]) {
+			expect(copy.at).toBeInstanceOf(Date);
+			expect(copy.at.toISOString()).toBe("2024-02-29T12:00:00.000Z");
+			expect(isNaN(copy.never.getTime())).toBe(true);
+			expect(copy.big).toBe(2n ** 70n);
+			expect("missing" in copy).toBe(true);
+			expect(copy.missing).toBeUndefined();
+			expect(copy.list).toEqual([1, undefined, 3]);
+		}
+	});
+
+	it("sends maps and sets, with object keys and nested tagged values", async () => {
+		let { echo } = await setup();
+		let key = { id: 1 };
+		let map = new Map<any, any>([
+			[key, new Set([new Date(0), 5n])],
+			["plain", { nested: new Map([[1, "one"]]) }],
+		]);
+		let result: Map<any, any> = await echo(map);
+		expect(result).toBeInstanceOf(Map);
+		let [[resultKey, set], [plain, nested]] = Array.from(result.entries());
+		expect(resultKey).toEqual({ id: 1 });
+		expect(Array.from(set)).toEqual([new Date(0), 5n]);
+		expect(plain).toBe("plain");
+		expect(nested.nested.get(1)).toBe("one");
+	});
+
+	it("sends binary data with its type", async () => {
+		let { echo } = await setup();
+		let buffer = new Uint8Array([1, 2, 3, 250]).buffer;
+		let values = [
+			buffer,
+			new Uint8Array([0, 255]),
+			new Int16Array([-2, 300]),
+			new Float64Array([Math.PI]),
+			new BigInt64Array([-(2n ** 60n)]),
+			new Uint8Array(buffer, 1, 2),
+			new DataView(buffer, 2),
+		];
+		let result: any[] = await echo(values);
+		expect(result[0]).toBeInstanceOf(ArrayBuffer);
+		expect(Array.from(new Uint8Array(result[0]))).toEqual([1, 2, 3, 250]);
+		expect(result[1]).toEqual(new Uint8Array([0, 255]));
+		expect(result[2]).toEqual(new Int16Array([-2, 300]));
+		expect(result[3]).toEqual(new Float64Array([Math.PI]));
+		expect(result[4]).toEqual(new BigInt64Array([-(2n ** 60n)]));
+		// a view sends only the bytes it covers
+		expect(result[5]).toEqual(new Uint8Array([2, 3]));
+		expect(result[6]).toBeInstanceOf(DataView);
+		expect(result[6].getUint8(1)).toBe(250);
+	});
+
+	it("keeps functions inside maps, sets and arrays callable", async () => {
+		let { echo, received } = await setup();
+		let double = async (n: number) => n * 2;
+		await echo({ map: new Map([["double", double]]), set: new Set([double]), list: [double] });
+		let { map, set, list } = received[0];
+		expect(await map.get("double")(21)).toBe(42);
+		expect(await Array.from<any>(set)[0](2)).toBe(4);
+		expect(await list[0](3)).toBe(6);
+	});
+
+	it("uses registered codecs for custom classes", async () => {
+		let { echo } = await setup();
+		registerValueCodec<Money>({
+			tag: "Money",
+			test: (value) => value instanceof Money,
+			encode: (value, encodeNested) => ({ amount: encodeNested(value.amount, "amount"), currency: value.currency }),
+			decode: (value, decodeNested) => new Money(decodeNested(value.amount, "amount"), value.currency),
+		});
+		let result = await echo({ price: new Money(1999n, "EUR") });
+		expect(result.price).toBeInstanceOf(Money);
+		expect(result.price.format()).toBe("1999 EUR");
+
+		unregisterValueCodec("Money");
+		let plain = await echo(new Money(1n, "USD"));
+		expect(plain).not.toBeInstanceOf(Money);
+		expect([plain.amount, plain.currency]).toEqual([1n, "USD"]);
+	});
+
+	it("sends objects using the reserved keys unchanged", async () => {
+		let { echo } = await setup();
+		let value = { ___type: "Date", value: "not a date", ___ref: ".x", ___function: "f", ___escaped: 1 };
+		expect(await echo(value)).toEqual(value);
+	});
+});
@@ -0,0 +1,173 @@
+import { base64ToBytes, bytesToBase64 } from "./encoding";
+import { isTransferableValue, RPC_TRANSFER_TAG } from "./transfer";
+
+/**
+ * Encodes a value that doesn't survive JSON into a tagged object
+ * `{ ___type: tag, value: ... }` and rebuilds it on the receiving side.
+ *
+ * encodeNested/decodeNested run the regular proxy encoding on values held by
+ * the codec (for example Map entries), so functions and other tagged values
+ * inside them keep working. `key` identifies the nested value within the codec.
+ *
+ * Containers that can hold themselves should implement create and fill instead
+ * of relying on decode alone: the empty container from create is registered
+ * before fill decodes the entries, so references back to it resolve.
+ */
+export interface RPCValueCodec<T = any> {
+	tag: string;
+	test(value: any): boolean;
+	encode(value: T, encodeNested: (value: any, key: string) => any): any;
+	decode(value: any, decodeNested: (value: any, key: string) => any): T;
+	create?(value: any): T;
+	fill?(target: T, value: any, decodeNested: (value: any, key: string) => any): void;
+}
+
+const TYPED_ARRAY_NAMES = [
+	"Int8Array",
+	"Uint8Array",
+	"Uint8ClampedArray",
+	"Int16Array",
+	"Uint16Array",
+	"Int32Array",
+	"Uint32Array",
+	"Float32Array",
+	"Float64Array",
+	"BigInt64Array",
+	"BigUint64Array",
+	"DataView",
+];
+
+function viewBytes(view: ArrayBufferView): Uint8Array {
+	return new Uint8Array(view.buffer, view.byteOffset, view.byteLength);
+}
+
+function fillMap(map: Map<any, any>, value: any[], decodeNested: (value: any, key: string) => any): Map<any, any> {
+	(Array.isArray(value) ? value : []).forEach((entry, index) =>
+		map.set(decodeNested(entry?.[0], index + ".key"), decodeNested(entry?.[1], index + ".value")),
+	);
+	return map;
+}
+
+function fillSet(set: Set<any>, value: any[], decodeNested: (value: any, key: string) => any): Set<any> {
+	(Array.isArray(value) ? value : []).forEach((v, index) => set.add(decodeNested(v, String(index))));
+	return set;
+}
+
+const builtInCodecs: RPCValueCodec[] = [
+	{
+		tag: "undefined",
+		test: (value) => value === undefined,
+		encode: () => null,
+		decode: () => undefined,
+	},
+	{
+		tag: "Date",
+		test: (value) => value instanceof Date,
+		encode: (value: Date) => (isNaN(value.getTime()) ? null : value.toISOString()),
+		decode: (value) => new Date(value ?? NaN),
+	},
+	{
+		tag: "BigInt",
+		test: (value) => typeof value == "bigint",
+		encode: (value) => value.toString(),
+		decode: (value) => (globalThis as any).BigInt(value),
+	},
+	{
+		tag: "Map",
+		test: (value) => value instanceof Map,
+		encode: (value: Map<any, any>, encodeNested) =>
+			Array.from(value.entries()).map(([k, v], index) => [
+				encodeNested(k, index + ".key"),
+				encodeNested(v, index + ".value"),
+			]),
+		decode: (value: any[], decodeNested) => fillMap(new Map(), value, decodeNested),
+		create: () => new Map(),
+		fill: fillMap,
+	},
+	{
+		tag: "Set",
+		test: (value) => value instanceof Set,
+		encode: (value: Set<any>, encodeNested) =>
+			Array.from(value.values()).map((v, index) => encodeNested(v, String(index))),
+		decode: (value: any[], decodeNested) => fillSet(new Set(), value, decodeNested),
+		create: () => new Set(),
+		fill: fillSet,
+	},
+	{
+		tag: "ArrayBuffer",
+		test: (value) => typeof ArrayBuffer != "undefined" && value instanceof ArrayBuffer,
+		encode: (value: ArrayBuffer) => bytesToBase64(new Uint8Array(value)),
+		decode: (value) => {
+			let bytes = base64ToBytes(String(value ?? ""));
+			return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+		},
+	},
+	{
+		tag: "TypedArray",
+		test: (value) => typeof ArrayBuffer != "undefined" && ArrayBuffer.isView(value),
+		encode: (value: ArrayBufferView) => ({
+			type: TYPED_ARRAY_NAMES.find((name) => (globalThis as any)[name] && value instanceof (globalThis as any)[name]),
+			data: bytesToBase64(viewBytes(value)),
+		}),
+		decode: (value) => {
+			let bytes = base64ToBytes(String(value?.data ?? ""));
+			let buffer = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+			let type = TYPED_ARRAY_NAMES.includes(value?.type) ? value.type : "Uint8Array";
+			let Ctor = (globalThis as any)[type] ?? Uint8Array;
+			return new Ctor(buffer);
+		},
+	},
+	{
+		tag: RPC_TRANSFER_TAG,
+		// written by the encoder itself for transports that use structured clone
+		test: () => false,
+		encode: (value) => value,
+		decode: (value) => {
+			if (!isTransferableValue(value)) {
+				throw new Error("Invalid transferred value");
+			}
+			return value;
+		},
+	},
+];
+
+const customCodecs: RPCValueCodec[] = [];
+
+/**
+ * Register a codec for a custom class. Codecs registered later take precedence,
+ * and custom codecs are checked before the built-in ones.
+ *
+ * Usage:
+ *   registerValueCodec<Money>({
+ *     tag: 'Money',
+ *     test: (v) => v instanceof Money,
+ *     encode: (v) => ({ amount: v.amount, currency: v.currency }),
+ *     decode: (v) => new Money(v.amount, v.currency),
+ *   });
+ */
+export function registerValueCodec<T>(codec: RPCValueCodec<T>) {
+	unregisterValueCodec(codec.tag);
+	customCodecs.unshift(codec);
+}
+
+export function unregisterValueCodec(tag: string) {
+	let index = customCodecs.findIndex((c) => c.tag == tag);
+	if (index >= 0) {
+		customCodecs.splice(index, 1);
+	}
+}
+
+export function findValueCodec(value: any): RPCValueCodec | undefined {
+	return customCodecs.find((c) => c.test(value)) ?? builtInCodecs.find((c) => c.test(value));
+}
+
+export function getValueCodec(tag: string): RPCValueCodec | undefined {
+	return customCodecs.find((c) => c.tag == tag) ?? builtInCodecs.find((c) => c.tag == tag);
+}
+
+/**
+ * True when the object is a tagged value written by a codec
+ */
+export function isEncodedValue(value: any): boolean {
+	return value != null && typeof value == "object" && typeof value.___type == "string" && getValueCodec(value.___type) !== undefined;
+}
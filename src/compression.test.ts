@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import * as zlib from "node:zlib";
+import { CompressionAlgorithm, compressBytes, decompressBytes } from "./compression";
+
+const ALGORITHMS: CompressionAlgorithm[] = ["gzip", "deflate", "deflate-raw"];
+
+const reference = {
+	gzip: { compress: (data: Uint8Array, level: number) => zlib.gzipSync(data, { level }), decompress: zlib.gunzipSync },
+	deflate: { compress: (data: Uint8Array, level: number) => zlib.deflateSync(data, { level }), decompress: zlib.inflateSync },
+	"deflate-raw": { compress: (data: Uint8Array, level: number) => zlib.deflateRawSync(data, { level }), decompress: zlib.inflateRawSync },
+};
+
+function pseudoRandomBytes(length: number, seed: number = 1): Uint8Array {
+	let bytes = new Uint8Array(length);
+	for (let i = 0; i < length; i++) {
+		seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+		bytes[i] = seed >> 16;
+	}
+	return bytes;
+}
+
+const samples: { [name: string]: Uint8Array } = {
+	empty: new Uint8Array(0),
+	json: new TextEncoder().encode(JSON.stringify(Array.from({ length: 2000 }, (_, i) => ({ id: i, name: "item " + i, tags: ["a", "b"], text: "héllo wörld 😀" })))),
+	random: pseudoRandomBytes(70000),
+	runs: new Uint8Array(100000).map((_, i) => (i >> 10) & 0xff),
+};
+
+describe("compressBytes and decompressBytes", () => {
+	for (let algorithm of ALGORITHMS) {
+		for (let name of Object.keys(samples)) {
+			it(`built-in ${algorithm} of ${name} data decodes with zlib`, async () => {
+				let compressed = await compressBytes(samples[name], algorithm, false);
+				expect(new Uint8Array(reference[algorithm].decompress(compressed))).toEqual(samples[name]);
+			});
+
+			it(`built-in ${algorithm} decodes zlib output of ${name} data at every kind of block`, async () => {
+				// level 0 writes stored blocks, 1 mostly fixed codes, 9 dynamic codes
+				for (let level of [0, 1, 9]) {
+					let compressed = new Uint8Array(reference[algorithm].compress(samples[name], level));
+					expect(await decompressBytes(compressed, algorithm, false)).toEqual(samples[name]);
+				}
+			});
+		}
+
+		it(`${algorithm} round-trips through the native streams`, async () => {
+			let compressed = await compressBytes(samples.json, algorithm);
+			expect(await decompressBytes(compressed, algorithm)).toEqual(samples.json);
+		});
+
+		it(`rejects truncated ${algorithm} data`, async () => {
+			let compressed = await compressBytes(samples.json, algorithm, false);
+			let truncated = compressed.subarray(0, compressed.length >> 1);
+			await expect(decompressBytes(truncated, algorithm, false)).rejects.toThrow();
+			await expect(decompressBytes(truncated, algorithm, true)).rejects.toThrow();
+		});
+
+		it(`stops a ${algorithm} compression bomb at maxBytes`, async () => {
+			let bomb = new Uint8Array(reference[algorithm].compress(new Uint8Array(4 * 1024 * 1024), 9));
+			expect(bomb.length).toBeLessThan(10000);
+			for (let native of [false, true]) {
+				await expect(decompressBytes(bomb, algorithm, native, 1024 * 1024)).rejects.toThrow(
+					"Decompressed data exceeds the maximum of 1048576 bytes",
+				);
+			}
+			expect((await decompressBytes(bomb, algorithm, false, 4 * 1024 * 1024)).length).toBe(4 * 1024 * 1024);
+		});
+	}
+
+	it("rejects gzip data with a corrupted checksum or payload", async () => {
+		let compressed = await compressBytes(samples.json, "gzip", false);
+		let badChecksum = compressed.slice();
+		badChecksum[badChecksum.length - 6] ^= 0xff;
+		await expect(decompressBytes(badChecksum, "gzip", false)).rejects.toThrow("gzip checksum mismatch");
+		let badPayload = compressed.slice();
+		badPayload[40] ^= 0xff;
+		await expect(decompressBytes(badPayload, "gzip", false)).rejects.toThrow();
+	});
+
+	it("rejects zlib data with a corrupted checksum", async () => {
+		let compressed = await compressBytes(samples.json, "deflate", false);
+		compressed[compressed.length - 1] ^= 0xff;
+		await expect(decompressBytes(compressed, "deflate", false)).rejects.toThrow("zlib checksum mismatch");
+	});
+
+	it("rejects data with the wrong header", async () => {
+		let compressed = await compressBytes(samples.json, "deflate-raw", false);
+		await expect(decompressBytes(compressed, "gzip", false)).rejects.toThrow("Invalid gzip header");
+		await expect(decompressBytes(compressed, "deflate", false)).rejects.toThrow("Invalid zlib header");
+	});
+
+	it("rejects invalid block types", async () => {
+		// final block of the reserved type 3
+		await expect(decompressBytes(new Uint8Array([0x07, 0x00]), "deflate-raw", false)).rejects.toThrow("Invalid block type");
+	});
+});
@@ -0,0 +1,565 @@
+/**
+ * Formats understood by CompressionStream, all of which also have a pure-JS
+ * implementation here for runtimes without it.
+ */
+export type CompressionAlgorithm = "gzip" | "deflate" | "deflate-raw";
+
+/** Preferred first. gzip is the most widely supported natively and carries a CRC. */
+export const DEFAULT_COMPRESSION_ALGORITHMS: CompressionAlgorithm[] = ["gzip", "deflate-raw"];
+
+const COMPRESSION_ALGORITHMS: CompressionAlgorithm[] = ["gzip", "deflate", "deflate-raw"];
+
+export function isCompressionAlgorithm(value: any): value is CompressionAlgorithm {
+	return COMPRESSION_ALGORITHMS.indexOf(value) >= 0;
+}
+
+/**
+ * Compress `data` with CompressionStream when the runtime supports `algorithm`,
+ * with the built-in implementation otherwise. Pass `native: false` to always
+ * use the built-in one.
+ */
+export async function compressBytes(data: Uint8Array, algorithm: CompressionAlgorithm, native: boolean = true): Promise<Uint8Array> {
+	let Stream = (globalThis as any).CompressionStream;
+	if (native && Stream) {
+		let stream = createStream(Stream, algorithm);
+		if (stream) {
+			return pipeThrough(data, stream);
+		}
+	}
+	switch (algorithm) {
+		case "gzip":
+			return gzipWrap(deflateRaw(data), data);
+		case "deflate":
+			return zlibWrap(deflateRaw(data), data);
+		case "deflate-raw":
+			return deflateRaw(data);
+	}
+	throw new Error("Unsupported compression algorithm " + algorithm);
+}
+
+/**
+ * Reverse of compressBytes. Throws on corrupt input, and as soon as the output
+ * grows past `maxBytes` when it is set, so small inputs can't inflate into
+ * huge ones.
+ */
+export async function decompressBytes(
+	data: Uint8Array,
+	algorithm: CompressionAlgorithm,
+	native: boolean = true,
+	maxBytes?: number,
+): Promise<Uint8Array> {
+	let Stream = (globalThis as any).DecompressionStream;
+	if (native && Stream) {
+		let stream = createStream(Stream, algorithm);
+		if (stream) {
+			return pipeThrough(data, stream, maxBytes);
+		}
+	}
+	switch (algorithm) {
+		case "gzip":
+			return gunzip(data, maxBytes);
+		case "deflate":
+			return zlibUnwrap(data, maxBytes);
+		case "deflate-raw":
+			return inflateRaw(data, 0, maxBytes).output;
+	}
+	throw new Error("Unsupported compression algorithm " + algorithm);
+}
+
+function createStream(Stream: any, algorithm: CompressionAlgorithm): any {
+	try {
+		return new Stream(algorithm);
+	} catch (e) {
+		// older engines only know gzip and deflate
+		return null;
+	}
+}
+
+function tooLarge(maxBytes: number): Error {
+	return new Error("Decompressed data exceeds the maximum of " + maxBytes + " bytes");
+}
+
+async function pipeThrough(data: Uint8Array, stream: any, maxBytes?: number): Promise<Uint8Array> {
+	let writer = stream.writable.getWriter();
+	// errors surface through the reader as well
+	writer.write(data).catch(() => undefined);
+	writer.close().catch(() => undefined);
+	let reader = stream.readable.getReader();
+	let chunks: Uint8Array[] = [];
+	let length = 0;
+	for (;;) {
+		let { done, value } = await reader.read();
+		if (done) {
+			break;
+		}
+		chunks.push(value);
+		length += value.length;
+		if (maxBytes !== undefined && length > maxBytes) {
+			reader.cancel().catch(() => undefined);
+			throw tooLarge(maxBytes);
+		}
+	}
+	return concat(chunks, length);
+}
+
+function concat(chunks: Uint8Array[], length: number): Uint8Array {
+	let result = new Uint8Array(length);
+	let offset = 0;
+	chunks.forEach((chunk) => {
+		result.set(chunk, offset);
+		offset += chunk.length;
+	});
+	return result;
+}
+
+// ---- DEFLATE (RFC 1951) ----
+
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DIST_BASE = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577];
+const DIST_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+const WINDOW_SIZE = 32768;
+const MIN_MATCH = 3;
+const MAX_MATCH = 258;
+const MAX_CHAIN = 64;
+
+class BitWriter {
+	buffer: Uint8Array;
+	length = 0;
+	private bits = 0;
+	private count = 0;
+	constructor(capacity: number) {
+		this.buffer = new Uint8Array(Math.max(capacity, 64));
+	}
+	write(value: number, count: number) {
+		this.bits |= value << this.count;
+		this.count += count;
+		while (this.count >= 8) {
+			this.push(this.bits & 0xff);
+			this.bits >>>= 8;
+			this.count -= 8;
+		}
+	}
+	/** Huffman codes are packed starting from their most significant bit */
+	writeCode(code: number, count: number) {
+		let reversed = 0;
+		for (let i = 0; i < count; i++) {
+			reversed = (reversed << 1) | ((code >> i) & 1);
+		}
+		this.write(reversed, count);
+	}
+	finish(): Uint8Array {
+		if (this.count > 0) {
+			this.push(this.bits & 0xff);
+			this.bits = 0;
+			this.count = 0;
+		}
+		return this.buffer.subarray(0, this.length);
+	}
+	private push(byte: number) {
+		if (this.length == this.buffer.length) {
+			let grown = new Uint8Array(this.buffer.length * 2);
+			grown.set(this.buffer);
+			this.buffer = grown;
+		}
+		this.buffer[this.length++] = byte;
+	}
+}
+
+function writeFixedLiteral(out: BitWriter, symbol: number) {
+	if (symbol < 144) {
+		out.writeCode(0x30 + symbol, 8);
+	} else if (symbol < 256) {
+		out.writeCode(0x190 + symbol - 144, 9);
+	} else if (symbol < 280) {
+		out.writeCode(symbol - 256, 7);
+	} else {
+		out.writeCode(0xc0 + symbol - 280, 8);
+	}
+}
+
+function findCode(base: number[], value: number): number {
+	let code = base.length - 1;
+	while (base[code] > value) {
+		code--;
+	}
+	return code;
+}
+
+/**
+ * LZ77 with hash chains and the fixed Huffman codes: a fraction of the code of
+ * a full encoder, and close enough on the repetitive JSON sent over the bridge.
+ */
+function deflateRaw(data: Uint8Array): Uint8Array {
+	let out = new BitWriter((data.length >> 1) + 16);
+	// single final block with fixed codes
+	out.write(1, 1);
+	out.write(1, 2);
+	let head = new Int32Array(WINDOW_SIZE).fill(-1);
+	let prev = new Int32Array(WINDOW_SIZE);
+	let hash = (i: number) => ((data[i] << 10) ^ (data[i + 1] << 5) ^ data[i + 2]) & (WINDOW_SIZE - 1);
+	let insert = (i: number) => {
+		if (i + MIN_MATCH <= data.length) {
+			let h = hash(i);
+			prev[i & (WINDOW_SIZE - 1)] = head[h];
+			head[h] = i;
+		}
+	};
+	let i = 0;
+	while (i < data.length) {
+		let bestLength = 0;
+		let bestDistance = 0;
+		if (i + MIN_MATCH <= data.length) {
+			let limit = Math.min(MAX_MATCH, data.length - i);
+			let candidate = head[hash(i)];
+			for (let chain = MAX_CHAIN; candidate >= 0 && chain > 0; chain--) {
+				let distance = i - candidate;
+				if (distance <= 0 || distance > WINDOW_SIZE) {
+					break;
+				}
+				if (data[candidate + bestLength] == data[i + bestLength]) {
+					let length = 0;
+					while (length < limit && data[candidate + length] == data[i + length]) {
+						length++;
+					}
+					if (length > bestLength) {
+						bestLength = length;
+						bestDistance = distance;
+						if (length == limit) {
+							break;
+						}
+					}
+				}
+				candidate = prev[candidate & (WINDOW_SIZE - 1)];
+			}
+		}
+		if (bestLength >= MIN_MATCH) {
+			let lengthCode = findCode(LENGTH_BASE, bestLength);
+			writeFixedLiteral(out, 257 + lengthCode);
+			out.write(bestLength - LENGTH_BASE[lengthCode], LENGTH_EXTRA[lengthCode]);
+			let distanceCode = findCode(DIST_BASE, bestDistance);
+			out.writeCode(distanceCode, 5);
+			out.write(bestDistance - DIST_BASE[distanceCode], DIST_EXTRA[distanceCode]);
+			for (let end = i + bestLength; i < end; i++) {
+				insert(i);
+			}
+		} else {
+			writeFixedLiteral(out, data[i]);
+			insert(i);
+			i++;
+		}
+	}
+	writeFixedLiteral(out, 256);
+	return out.finish();
+}
+
+/** Canonical Huffman code: number of codes per length and symbols in code order */
+class Huffman {
+	counts = new Uint16Array(16);
+	symbols: Uint16Array;
+	constructor(lengths: ArrayLike<number>, count: number) {
+		this.symbols = new Uint16Array(count);
+		for (let i = 0; i < count; i++) {
+			this.counts[lengths[i]]++;
+		}
+		this.counts[0] = 0;
+		let offsets = new Uint16Array(16);
+		for (let length = 1; length < 16; length++) {
+			offsets[length] = offsets[length - 1] + this.counts[length - 1];
+		}
+		for (let i = 0; i < count; i++) {
+			if (lengths[i]) {
+				this.symbols[offsets[lengths[i]]++] = i;
+			}
+		}
+	}
+}
+
+let fixedCodes: { literals: Huffman; distances: Huffman } | null = null;
+
+function getFixedCodes() {
+	if (!fixedCodes) {
+		let lengths = new Uint8Array(288);
+		lengths.fill(8, 0, 144);
+		lengths.fill(9, 144, 256);
+		lengths.fill(7, 256, 280);
+		lengths.fill(8, 280, 288);
+		fixedCodes = { literals: new Huffman(lengths, 288), distances: new Huffman(new Uint8Array(30).fill(5), 30) };
+	}
+	return fixedCodes;
+}
+
+class InflateState {
+	position: number;
+	output: Uint8Array;
+	length = 0;
+	private bits = 0;
+	private count = 0;
+	constructor(public input: Uint8Array, start: number, public maxBytes?: number) {
+		this.position = start;
+		this.output = new Uint8Array(Math.max(Math.min(input.length * 4, maxBytes ?? Infinity), 1024));
+	}
+	read(count: number): number {
+		while (this.count < count) {
+			if (this.position >= this.input.length) {
+				throw new Error("Unexpected end of compressed data");
+			}
+			this.bits |= this.input[this.position++] << this.count;
+			this.count += 8;
+		}
+		let value = this.bits & ((1 << count) - 1);
+		this.bits >>>= count;
+		this.count -= count;
+		return value;
+	}
+	alignToByte() {
+		this.bits = 0;
+		this.count = 0;
+	}
+	decode(code: Huffman): number {
+		let value = 0;
+		let first = 0;
+		let index = 0;
+		for (let length = 1; length < 16; length++) {
+			value |= this.read(1);
+			let count = code.counts[length];
+			if (value - first < count) {
+				return code.symbols[index + value - first];
+			}
+			index += count;
+			first = (first + count) << 1;
+			value <<= 1;
+		}
+		throw new Error("Invalid Huffman code");
+	}
+	ensure(extra: number) {
+		if (this.maxBytes !== undefined && this.length + extra > this.maxBytes) {
+			throw tooLarge(this.maxBytes);
+		}
+		if (this.length + extra > this.output.length) {
+			let grown = new Uint8Array(Math.max(this.output.length * 2, this.length + extra));
+			grown.set(this.output.subarray(0, this.length));
+			this.output = grown;
+		}
+	}
+}
+
+function inflateCodes(state: InflateState, literals: Huffman, distances: Huffman) {
+	for (;;) {
+		let symbol = state.decode(literals);
+		if (symbol < 256) {
+			state.ensure(1);
+			state.output[state.length++] = symbol;
+		} else if (symbol == 256) {
+			return;
+		} else {
+			symbol -= 257;
+			if (symbol >= 29) {
+				throw new Error("Invalid length code");
+			}
+			let length = LENGTH_BASE[symbol] + state.read(LENGTH_EXTRA[symbol]);
+			let distanceCode = state.decode(distances);
+			if (distanceCode >= 30) {
+				throw new Error("Invalid distance code");
+			}
+			let distance = DIST_BASE[distanceCode] + state.read(DIST_EXTRA[distanceCode]);
+			if (distance > state.length) {
+				throw new Error("Distance too far back");
+			}
+			state.ensure(length);
+			let output = state.output;
+			for (let i = 0; i < length; i++, state.length++) {
+				output[state.length] = output[state.length - distance];
+			}
+		}
+	}
+}
+
+function readDynamicCodes(state: InflateState) {
+	let literalCount = state.read(5) + 257;
+	let distanceCount = state.read(5) + 1;
+	let lengthCount = state.read(4) + 4;
+	let lengths = new Uint8Array(320);
+	for (let i = 0; i < lengthCount; i++) {
+		lengths[CODE_LENGTH_ORDER[i]] = state.read(3);
+	}
+	let lengthCode = new Huffman(lengths, 19);
+	let total = literalCount + distanceCount;
+	lengths = new Uint8Array(320);
+	for (let i = 0; i < total;) {
+		let symbol = state.decode(lengthCode);
+		if (symbol < 16) {
+			lengths[i++] = symbol;
+			continue;
+		}
+		let repeat: number;
+		let value = 0;
+		if (symbol == 16) {
+			if (i == 0) {
+				throw new Error("Invalid code lengths");
+			}
+			value = lengths[i - 1];
+			repeat = 3 + state.read(2);
+		} else if (symbol == 17) {
+			repeat = 3 + state.read(3);
+		} else {
+			repeat = 11 + state.read(7);
+		}
+		if (i + repeat > total) {
+			throw new Error("Invalid code lengths");
+		}
+		lengths.fill(value, i, i + repeat);
+		i += repeat;
+	}
+	return {
+		literals: new Huffman(lengths, literalCount),
+		distances: new Huffman(lengths.subarray(literalCount, total), distanceCount),
+	};
+}
+
+function inflateRaw(input: Uint8Array, start: number, maxBytes?: number): { output: Uint8Array; end: number } {
+	let state = new InflateState(input, start, maxBytes);
+	let final = 0;
+	while (!final) {
+		final = state.read(1);
+		let type = state.read(2);
+		if (type == 0) {
+			state.alignToByte();
+			let position = state.position;
+			if (position + 4 > input.length) {
+				throw new Error("Unexpected end of compressed data");
+			}
+			let length = input[position] | (input[position + 1] << 8);
+			let check = input[position + 2] | (input[position + 3] << 8);
+			if (length != (~check & 0xffff) || position + 4 + length > input.length) {
+				throw new Error("Invalid stored block");
+			}
+			state.ensure(length);
+			state.output.set(input.subarray(position + 4, position + 4 + length), state.length);
+			state.length += length;
+			state.position = position + 4 + length;
+		} else if (type == 1) {
+			let codes = getFixedCodes();
+			inflateCodes(state, codes.literals, codes.distances);
+		} else if (type == 2) {
+			let codes = readDynamicCodes(state);
+			inflateCodes(state, codes.literals, codes.distances);
+		} else {
+			throw new Error("Invalid block type");
+		}
+	}
+	// unused bits of the last byte belong to the block
+	return { output: state.output.slice(0, state.length), end: state.position };
+}
+
+// ---- gzip (RFC 1952) and zlib (RFC 1950) framing ----
+
+let crcTable: Int32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+	if (!crcTable) {
+		crcTable = new Int32Array(256);
+		for (let n = 0; n < 256; n++) {
+			let c = n;
+			for (let k = 0; k < 8; k++) {
+				c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+			}
+			crcTable[n] = c;
+		}
+	}
+	let crc = -1;
+	for (let i = 0; i < data.length; i++) {
+		crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+	}
+	return (crc ^ -1) >>> 0;
+}
+
+function adler32(data: Uint8Array): number {
+	let a = 1;
+	let b = 0;
+	for (let i = 0; i < data.length;) {
+		// 5552 bytes is the most that can be summed before the modulo is needed
+		let end = Math.min(i + 5552, data.length);
+		for (; i < end; i++) {
+			a += data[i];
+			b += a;
+		}
+		a %= 65521;
+		b %= 65521;
+	}
+	return ((b << 16) | a) >>> 0;
+}
+
+function readUint32LE(data: Uint8Array, position: number): number {
+	return (data[position] | (data[position + 1] << 8) | (data[position + 2] << 16) | (data[position + 3] << 24)) >>> 0;
+}
+
+function gzipWrap(deflated: Uint8Array, original: Uint8Array): Uint8Array {
+	let result = new Uint8Array(deflated.length + 18);
+	// magic, deflate, no flags, no mtime, no extra flags, unknown OS
+	result.set([0x1f, 0x8b, 8, 0, 0, 0, 0, 0, 0, 0xff]);
+	result.set(deflated, 10);
+	let crc = crc32(original);
+	let size = original.length;
+	let trailer = deflated.length + 10;
+	for (let i = 0; i < 4; i++) {
+		result[trailer + i] = (crc >>> (8 * i)) & 0xff;
+		result[trailer + 4 + i] = (size >>> (8 * i)) & 0xff;
+	}
+	return result;
+}
+
+function gunzip(data: Uint8Array, maxBytes?: number): Uint8Array {
+	if (data.length < 18 || data[0] != 0x1f || data[1] != 0x8b || data[2] != 8) {
+		throw new Error("Invalid gzip header");
+	}
+	let flags = data[3];
+	let position = 10;
+	if (flags & 4) {
+		position += 2 + (data[position] | (data[position + 1] << 8));
+	}
+	// file name and comment are zero terminated
+	for (let flag of [8, 16]) {
+		if (flags & flag) {
+			while (position < data.length && data[position] != 0) {
+				position++;
+			}
+			position++;
+		}
+	}
+	if (flags & 2) {
+		position += 2;
+	}
+	let { output, end } = inflateRaw(data, position, maxBytes);
+	if (end + 8 > data.length || readUint32LE(data, end) != crc32(output) || readUint32LE(data, end + 4) != (output.length >>> 0)) {
+		throw new Error("gzip checksum mismatch");
+	}
+	return output;
+}
+
+function zlibWrap(deflated: Uint8Array, original: Uint8Array): Uint8Array {
+	let result = new Uint8Array(deflated.length + 6);
+	result[0] = 0x78;
+	result[1] = 0x01;
+	result.set(deflated, 2);
+	let checksum = adler32(original);
+	let trailer = deflated.length + 2;
+	for (let i = 0; i < 4; i++) {
+		result[trailer + i] = (checksum >>> (24 - 8 * i)) & 0xff;
+	}
+	return result;
+}
+
+function zlibUnwrap(data: Uint8Array, maxBytes?: number): Uint8Array {
+	if (data.length < 6 || (data[0] & 0x0f) != 8 || ((data[0] << 8) | data[1]) % 31 != 0 || data[1] & 0x20) {
+		throw new Error("Invalid zlib header");
+	}
+	let { output, end } = inflateRaw(data, 2, maxBytes);
+	let checksum = end + 4 <= data.length ? ((data[end] << 24) | (data[end + 1] << 16) | (data[end + 2] << 8) | data[end + 3]) >>> 0 : -1;
+	if (checksum != adler32(output)) {
+		throw new Error("zlib checksum mismatch");
+	}
+	return output;
+}
@@ -0,0 +1,213 @@
+/**
+ * Small byte/string helpers shared by the codecs and the PostMessage transport.
+ * Implemented without btoa/atob/TextEncoder so they work in every runtime and
+ * don't blow the call stack on large inputs.
+ */
+
+const BASE64_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+const BASE64_LOOKUP: { [char: string]: number } = {};
+for (let i = 0; i < BASE64_ALPHABET.length; i++) {
+	BASE64_LOOKUP[BASE64_ALPHABET[i]] = i;
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+	let parts: string[] = [];
+	let chunk = "";
+	for (let i = 0; i < bytes.length; i += 3) {
+		let b0 = bytes[i];
+		let b1 = i + 1 < bytes.length ? bytes[i + 1] : 0;
+		let b2 = i + 2 < bytes.length ? bytes[i + 2] : 0;
+		chunk += BASE64_ALPHABET[b0 >> 2];
+		chunk += BASE64_ALPHABET[((b0 & 3) << 4) | (b1 >> 4)];
+		chunk += i + 1 < bytes.length ? BASE64_ALPHABET[((b1 & 15) << 2) | (b2 >> 6)] : "=";
+		chunk += i + 2 < bytes.length ? BASE64_ALPHABET[b2 & 63] : "=";
+		if (chunk.length >= 8192) {
+			parts.push(chunk);
+			chunk = "";
+		}
+	}
+	parts.push(chunk);
+	return parts.join("");
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+	let clean = base64.replace(/[^A-Za-z0-9+/]/g, "");
+	let bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+	let j = 0;
+	for (let i = 0; i < clean.length; i += 4) {
+		let c0 = BASE64_LOOKUP[clean[i]];
+		let c1 = BASE64_LOOKUP[clean[i + 1]] ?? 0;
+		let c2 = BASE64_LOOKUP[clean[i + 2]];
+		let c3 = BASE64_LOOKUP[clean[i + 3]];
+		bytes[j++] = (c0 << 2) | (c1 >> 4);
+		if (c2 !== undefined) {
+			bytes[j++] = ((c1 & 15) << 4) | (c2 >> 2);
+		}
+		if (c3 !== undefined) {
+			bytes[j++] = ((c2 & 3) << 6) | c3;
+		}
+	}
+	return bytes.subarray(0, j);
+}
+
+export function utf8Encode(text: string): Uint8Array {
+	let TextEncoderCtor = (globalThis as any).TextEncoder;
+	if (TextEncoderCtor) {
+		return new TextEncoderCtor().encode(text);
+	}
+	let bytes = new Uint8Array(utf8ByteLength(text));
+	let j = 0;
+	for (let i = 0; i < text.length; i++) {
+		let code = text.codePointAt(i);
+		if (code > 0xffff) {
+			i++;
+		}
+		if (code < 0x80) {
+			bytes[j++] = code;
+		} else if (code < 0x800) {
+			bytes[j++] = 0xc0 | (code >> 6);
+			bytes[j++] = 0x80 | (code & 63);
+		} else if (code < 0x10000) {
+			bytes[j++] = 0xe0 | (code >> 12);
+			bytes[j++] = 0x80 | ((code >> 6) & 63);
+			bytes[j++] = 0x80 | (code & 63);
+		} else {
+			bytes[j++] = 0xf0 | (code >> 18);
+			bytes[j++] = 0x80 | ((code >> 12) & 63);
+			bytes[j++] = 0x80 | ((code >> 6) & 63);
+			bytes[j++] = 0x80 | (code & 63);
+		}
+	}
+	return bytes;
+}
+
+export function utf8Decode(bytes: Uint8Array): string {
+	let TextDecoderCtor = (globalThis as any).TextDecoder;
+	if (TextDecoderCtor) {
+		return new TextDecoderCtor().decode(bytes);
+	}
+	let parts: string[] = [];
+	let codes: number[] = [];
+	for (let i = 0; i < bytes.length; ) {
+		let b = bytes[i++];
+		let code: number;
+		if (b < 0x80) {
+			code = b;
+		} else if (b < 0xe0) {
+			code = ((b & 31) << 6) | (bytes[i++] & 63);
+		} else if (b < 0xf0) {
+			code = ((b & 15) << 12) | ((bytes[i++] & 63) << 6) | (bytes[i++] & 63);
+		} else {
+			code = ((b & 7) << 18) | ((bytes[i++] & 63) << 12) | ((bytes[i++] & 63) << 6) | (bytes[i++] & 63);
+		}
+		codes.push(code);
+		if (codes.length >= 4096) {
+			parts.push(String.fromCodePoint(...codes));
+			codes = [];
+		}
+	}
+	parts.push(String.fromCodePoint(...codes));
+	return parts.join("");
+}
+
+/**
+ * Number of bytes the string takes once UTF-8 encoded, without allocating it
+ */
+export function utf8ByteLength(text: string): number {
+	let length = 0;
+	for (let i = 0; i < text.length; i++) {
+		let code = text.charCodeAt(i);
+		if (code < 0x80) {
+			length += 1;
+		} else if (code < 0x800) {
+			length += 2;
+		} else if (code >= 0xd800 && code <= 0xdbff && i + 1 < text.length) {
+			length += 4;
+			i++;
+		} else {
+			length += 3;
+		}
+	}
+	return length;
+}
+
+/**
+ * Number of bytes the string takes in JSON text, quotes and escapes included
+ */
+export function jsonStringByteLength(text: string): number {
+	let length = 2;
+	for (let i = 0; i < text.length; i++) {
+		let code = text.charCodeAt(i);
+		if (code == 0x22 || code == 0x5c || code == 0x08 || code == 0x0c || code == 0x0a || code == 0x0d || code == 0x09) {
+			length += 2;
+		} else if (code < 0x20) {
+			length += 6;
+		} else if (code < 0x80) {
+			length += 1;
+		} else if (code < 0x800) {
+			length += 2;
+		} else if (code >= 0xd800 && code <= 0xdbff && i + 1 < text.length && (text.charCodeAt(i + 1) & 0xfc00) == 0xdc00) {
+			length += 4;
+			i++;
+		} else if (code >= 0xd800 && code <= 0xdfff) {
+			// lone surrogates are written as \uXXXX
+			length += 6;
+		} else {
+			length += 3;
+		}
+	}
+	return length;
+}
+
+function isOmittedFromJSON(value: any): boolean {
+	return value === undefined || typeof value == "function" || typeof value == "symbol";
+}
+
+/**
+ * UTF-8 length of JSON.stringify(value), measured without building the text.
+ * `binary` can size values that don't go through JSON, such as buffers
+ * transferred as they are; return undefined for values it doesn't handle.
+ */
+export function jsonByteLength(value: any, binary?: (value: any) => number | undefined): number {
+	if (value != null && typeof value.toJSON == "function") {
+		value = value.toJSON();
+	}
+	if (binary && value !== null && typeof value == "object") {
+		let bytes = binary(value);
+		if (bytes !== undefined) {
+			return bytes;
+		}
+	}
+	if (value === null) {
+		return 4;
+	}
+	switch (typeof value) {
+		case "string":
+			return jsonStringByteLength(value);
+		case "number":
+			return isFinite(value) ? String(value).length : 4;
+		case "boolean":
+			return value ? 4 : 5;
+		case "object":
+			break;
+		default:
+			return 0;
+	}
+	if (Array.isArray(value)) {
+		let length = 2 + Math.max(value.length - 1, 0);
+		for (let i = 0; i < value.length; i++) {
+			length += isOmittedFromJSON(value[i]) ? 4 : jsonByteLength(value[i], binary);
+		}
+		return length;
+	}
+	let length = 2;
+	let count = 0;
+	Object.keys(value).forEach((key) => {
+		let item = value[key];
+		if (isOmittedFromJSON(item)) {
+			return;
+		}
+		length += (count++ > 0 ? 1 : 0) + jsonStringByteLength(key) + 1 + jsonByteLength(item, binary);
+	});
+	return length;
+}
@@ -0,0 +1,114 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { EnvelopeSecurityOptions, EnvelopeSession, SealedMessage } from "./index";
+
+const message = { id: "1", functionName: "echo", data: ["héllo"] };
+
+/** Both ends of a pair of sessions, as two bridges would set them up */
+function sessions(options: Partial<EnvelopeSecurityOptions> = {}, encrypt: boolean = false) {
+	let config = { ...new EnvelopeSecurityOptions(), secret: "shared secret", ...options };
+	return {
+		alice: new EnvelopeSession(config, "alice-session", "bob-session", encrypt),
+		bob: new EnvelopeSession(config, "bob-session", "alice-session", encrypt),
+	};
+}
+
+async function expectRejected(promise: Promise<any>, reason: string) {
+	await expect(promise).rejects.toMatchObject({ name: "EnvelopeSecurityError", reason });
+}
+
+afterEach(() => {
+	vi.restoreAllMocks();
+});
+
+describe("EnvelopeSession", () => {
+	it("opens what the peer session sealed", async () => {
+		let { alice, bob } = sessions();
+		let sealed = await alice.seal(message);
+		expect(JSON.parse(sealed.data)).toEqual(message);
+		expect(await bob.open(sealed)).toEqual(message);
+	});
+
+	it("encrypts and decrypts the message", async () => {
+		let { alice, bob } = sessions({}, true);
+		let sealed = await alice.seal(message);
+		expect(sealed.iv).toBeDefined();
+		expect(sealed.data).not.toContain("echo");
+		expect(await bob.open(sealed)).toEqual(message);
+	});
+
+	it("rejects unsigned and malformed payloads", async () => {
+		let { alice, bob } = sessions();
+		await expectRejected(bob.open(message), "unsigned");
+		let sealed = await alice.seal(message);
+		await expectRejected(bob.open({ ...sealed, timestamp: String(sealed.timestamp) }), "malformed");
+		await expectRejected(bob.open({ ...sealed, ___sealed: 2 }), "malformed");
+	});
+
+	it("rejects tampered data, fields and signatures", async () => {
+		let { alice, bob } = sessions();
+		let sealed = await alice.seal(message);
+		let tampered: SealedMessage[] = [
+			{ ...sealed, data: JSON.stringify({ ...message, functionName: "deleteEverything" }) },
+			{ ...sealed, nonce: sealed.nonce.replace(/^./, (c) => (c == "A" ? "B" : "A")) },
+			{ ...sealed, timestamp: sealed.timestamp + 1 },
+			{ ...sealed, signature: sealed.signature.replace(/^./, (c) => (c == "A" ? "B" : "A")) },
+			{ ...sealed, signature: "" },
+		];
+		for (let payload of tampered) {
+			await expectRejected(bob.open(payload), "bad-signature");
+		}
+		expect(await bob.open(sealed)).toEqual(message);
+	});
+
+	it("rejects tampered ciphertext", async () => {
+		let { alice, bob } = sessions({}, true);
+		let sealed = await alice.seal(message);
+		await expectRejected(bob.open({ ...sealed, data: sealed.data.replace(/^./, (c) => (c == "A" ? "B" : "A")) }), "bad-signature");
+	});
+
+	it("rejects messages signed with another secret", async () => {
+		let { alice } = sessions({ secret: "another secret" });
+		let { bob } = sessions();
+		await expectRejected(bob.open(await alice.seal(message)), "bad-signature");
+	});
+
+	it("rejects messages of another session", async () => {
+		let { alice, bob } = sessions();
+		let stranger = new EnvelopeSession({ ...new EnvelopeSecurityOptions(), secret: "shared secret" }, "other-session", "bob-session", false);
+		await expectRejected(bob.open(await stranger.seal(message)), "wrong-session");
+		// our own messages reflected back
+		await expectRejected(alice.open(await alice.seal(message)), "wrong-session");
+		// the same sessions in a later pairing derive other keys
+		let later = new EnvelopeSession({ ...new EnvelopeSecurityOptions(), secret: "shared secret" }, "alice-session", "new-bob-session", false);
+		await expectRejected(bob.open(await later.seal(message)), "bad-signature");
+	});
+
+	it("rejects a replayed nonce", async () => {
+		let { alice, bob } = sessions();
+		let sealed = await alice.seal(message);
+		expect(await bob.open(sealed)).toEqual(message);
+		await expectRejected(bob.open(sealed), "replayed");
+		await expectRejected(bob.open({ ...sealed }), "replayed");
+	});
+
+	it("rejects messages older or newer than maxAgeMs", async () => {
+		let { alice, bob } = sessions({ maxAgeMs: 1000 });
+		let now = Date.now();
+		let clock = vi.spyOn(Date, "now");
+		clock.mockReturnValue(now - 5000);
+		let old = await alice.seal(message);
+		clock.mockReturnValue(now + 5000);
+		let future = await alice.seal(message);
+		clock.mockReturnValue(now - 500);
+		let recent = await alice.seal(message);
+		clock.mockReturnValue(now);
+		await expectRejected(bob.open(old), "expired");
+		await expectRejected(bob.open(future), "expired");
+		expect(await bob.open(recent)).toEqual(message);
+	});
+
+	it("fails to seal without a secret", async () => {
+		let { alice } = sessions({ secret: "" });
+		await expect(alice.seal(message)).rejects.toThrow("Envelope security needs a secret");
+	});
+});
@@ -0,0 +1,188 @@
+import { base64ToBytes, bytesToBase64, utf8Decode, utf8Encode } from "./encoding";
+
+/** Version of the sealed message format, and the marker of sealed payloads */
+export const SEALED_MESSAGE_VERSION = 1;
+
+export class EnvelopeSecurityOptions {
+	/**
+	 * Secret both windows were given, e.g. by the server that rendered them.
+	 * Each session signs with keys derived from it and both session ids, so
+	 * messages of one session are worthless in the next.
+	 */
+	secret: string | Uint8Array;
+	/** Also encrypt payloads with AES-GCM when the peer supports it (default: false) */
+	encrypt?: boolean = false;
+	/** Refuse RPC messages to and from a peer that doesn't sign (default: true) */
+	required?: boolean = true;
+	/** How far a message timestamp may be from the local clock, and how long nonces are remembered (default: 30000ms) */
+	maxAgeMs?: number = 30000;
+}
+
+/**
+ * Payload of a signed envelope. `data` is the JSON text of the RPC message, or
+ * the base64 AES-GCM ciphertext of it when `iv` is set. The signature covers
+ * every other field.
+ */
+export interface SealedMessage {
+	___sealed: number;
+	/** Session of the sender, see BotDojoReadyMessage.sessionId */
+	sessionId: string;
+	timestamp: number;
+	nonce: string;
+	iv?: string;
+	data: string;
+	signature: string;
+}
+
+export type EnvelopeRejectReason = "unsigned" | "bad-signature" | "wrong-session" | "expired" | "replayed" | "malformed";
+
+export class EnvelopeSecurityError extends Error {
+	name = "EnvelopeSecurityError";
+	constructor(message: string, public reason: EnvelopeRejectReason) {
+		super(message);
+	}
+}
+
+export function isSealedMessage(value: any): value is SealedMessage {
+	return !!value && typeof value == "object" && value.___sealed !== undefined;
+}
+
+function getSubtleCrypto(): any {
+	return (globalThis as any).crypto?.subtle ?? null;
+}
+
+/**
+ * Whether WebCrypto is there to sign with. Browsers only offer it in secure
+ * contexts (https and localhost).
+ */
+export function isEnvelopeSecurityAvailable(): boolean {
+	return !!getSubtleCrypto();
+}
+
+function randomBase64(length: number): string {
+	let bytes = new Uint8Array(length);
+	(globalThis as any).crypto.getRandomValues(bytes);
+	return bytesToBase64(bytes);
+}
+
+function getSignedText(sealed: SealedMessage): string {
+	return [sealed.___sealed, sealed.sessionId, sealed.timestamp, sealed.nonce, sealed.iv ?? "", sealed.data].join("\n");
+}
+
+/**
+ * Signs, encrypts and checks the messages of one pair of bridge sessions.
+ * Both sides derive the same HMAC-SHA256 and AES-GCM keys from the secret with
+ * HKDF, salted with both session ids.
+ *
+ * Usage:
+ *   const session = new EnvelopeSession(options, mySessionId, peerSessionId, true);
+ *   const sealed = await session.seal(message);
+ *   // on the other side
+ *   const message = await session.open(sealed); // throws EnvelopeSecurityError
+ */
+export class EnvelopeSession {
+	private keys: Promise<{ hmac: any; aes: any }>;
+	/** Nonces seen, with the time they can be forgotten */
+	private nonces = new Map<string, number>();
+	constructor(
+		public options: EnvelopeSecurityOptions,
+		public sessionId: string,
+		public peerSessionId: string,
+		public encrypt: boolean,
+	) {
+		this.keys = this.deriveKeys();
+		this.keys.catch(() => undefined); // reported by seal and open
+	}
+	private async deriveKeys() {
+		let subtle = getSubtleCrypto();
+		let secret = typeof this.options.secret == "string" ? utf8Encode(this.options.secret) : this.options.secret;
+		if (!secret || secret.length == 0) {
+			throw new Error("Envelope security needs a secret");
+		}
+		let material = await subtle.importKey("raw", secret, "HKDF", false, ["deriveKey"]);
+		let salt = utf8Encode([this.sessionId, this.peerSessionId].sort().join("\n"));
+		let derive = (info: string, algorithm: any, usages: string[]) =>
+			subtle.deriveKey({ name: "HKDF", hash: "SHA-256", salt, info: utf8Encode(info) }, material, algorithm, false, usages);
+		return {
+			hmac: await derive("botdojo-rpc hmac", { name: "HMAC", hash: "SHA-256", length: 256 }, ["sign", "verify"]),
+			aes: this.encrypt ? await derive("botdojo-rpc aes-gcm", { name: "AES-GCM", length: 256 }, ["encrypt", "decrypt"]) : null,
+		};
+	}
+	async seal(message: any): Promise<SealedMessage> {
+		let subtle = getSubtleCrypto();
+		let keys = await this.keys;
+		let sealed: SealedMessage = {
+			___sealed: SEALED_MESSAGE_VERSION,
+			sessionId: this.sessionId,
+			timestamp: Date.now(),
+			nonce: randomBase64(16),
+			data: JSON.stringify(message),
+			signature: "",
+		};
+		if (keys.aes) {
+			sealed.iv = randomBase64(12);
+			let ciphertext = await subtle.encrypt({ name: "AES-GCM", iv: base64ToBytes(sealed.iv) }, keys.aes, utf8Encode(sealed.data));
+			sealed.data = bytesToBase64(new Uint8Array(ciphertext));
+		}
+		let signature = await subtle.sign("HMAC", keys.hmac, utf8Encode(getSignedText(sealed)));
+		sealed.signature = bytesToBase64(new Uint8Array(signature));
+		return sealed;
+	}
+	/**
+	 * Verify a sealed message and return the message inside. Every message is
+	 * only accepted once, and only within maxAgeMs of its timestamp.
+	 */
+	async open(sealed: any): Promise<any> {
+		if (!isSealedMessage(sealed)) {
+			throw new EnvelopeSecurityError("Unsigned message", "unsigned");
+		}
+		if (
+			sealed.___sealed !== SEALED_MESSAGE_VERSION ||
+			typeof sealed.sessionId != "string" ||
+			typeof sealed.timestamp != "number" ||
+			typeof sealed.nonce != "string" ||
+			typeof sealed.data != "string" ||
+			typeof sealed.signature != "string" ||
+			(sealed.iv !== undefined && typeof sealed.iv != "string")
+		) {
+			throw new EnvelopeSecurityError("Malformed signed message", "malformed");
+		}
+		// checked before the signature so our own messages can't be reflected back
+		if (sealed.sessionId !== this.peerSessionId) {
+			throw new EnvelopeSecurityError("Signed message from another session", "wrong-session");
+		}
+		let subtle = getSubtleCrypto();
+		let keys = await this.keys;
+		let signature = base64ToBytes(sealed.signature);
+		if (!(await subtle.verify("HMAC", keys.hmac, signature, utf8Encode(getSignedText(sealed))))) {
+			throw new EnvelopeSecurityError("Invalid message signature", "bad-signature");
+		}
+		let now = Date.now();
+		let maxAgeMs = this.options.maxAgeMs ?? 30000;
+		if (Math.abs(now - sealed.timestamp) > maxAgeMs) {
+			throw new EnvelopeSecurityError("Signed message is " + (now - sealed.timestamp) + "ms old", "expired");
+		}
+		this.nonces.forEach((expiry, nonce) => {
+			if (expiry < now) {
+				this.nonces.delete(nonce);
+			}
+		});
+		if (this.nonces.has(sealed.nonce)) {
+			throw new EnvelopeSecurityError("Replayed message", "replayed");
+		}
+		this.nonces.set(sealed.nonce, sealed.timestamp + maxAgeMs);
+		let text = sealed.data;
+		if (sealed.iv !== undefined || keys.aes) {
+			if (sealed.iv === undefined || !keys.aes) {
+				throw new EnvelopeSecurityError("Unexpected encryption of signed message", "malformed");
+			}
+			try {
+				let plaintext = await subtle.decrypt({ name: "AES-GCM", iv: base64ToBytes(sealed.iv) }, keys.aes, base64ToBytes(text));
+				text = utf8Decode(new Uint8Array(plaintext));
+			} catch (e) {
+				throw new EnvelopeSecurityError("Could not decrypt message", "malformed");
+			}
+		}
+		return JSON.parse(text);
+	}
+}
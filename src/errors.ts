@@ -0,0 +1,74 @@
+import { RPCMessageError } from "./index";
+
+/**
+ * Builds a local error from a received envelope. When omitted, an instance of the
+ * registered class is created without running its constructor and the envelope
+ * fields are copied onto it.
+ */
+export type RPCErrorFactory = (envelope: RPCMessageError, cause?: any) => any;
+
+class RegisteredError {
+	constructor(public errorClass: Function, public create?: RPCErrorFactory) { }
+}
+
+const errorRegistry: Map<string, RegisteredError> = new Map<string, RegisteredError>();
+
+/**
+ * Register an error class so errors thrown with it on one side are rebuilt as
+ * instances of it on the other side. Both sides must register the class under
+ * the same name, which defaults to the class name.
+ *
+ * Usage:
+ *   class QuotaExceededError extends Error { name = 'QuotaExceededError'; constructor(public limit: number) { super('quota'); } }
+ *   registerErrorClass(QuotaExceededError);
+ *
+ *   try { await connection.sendRequest('host', 'run', []); }
+ *   catch (e) { if (e instanceof QuotaExceededError) { ... e.limit ... } }
+ */
+export function registerErrorClass(
+	errorClass: Function,
+	options?: { name?: string; create?: RPCErrorFactory },
+) {
+	errorRegistry.set(options?.name ?? errorClass.name, new RegisteredError(errorClass, options?.create));
+}
+
+export function unregisterErrorClass(name: string) {
+	errorRegistry.delete(name);
+}
+
+/**
+ * Turn a received error envelope back into an error: an instance of the
+ * registered class for its name, or an RPCMessageError otherwise. Causes are
+ * rebuilt the same way.
+ */
+export function rehydrateError(envelope: any): any {
+	if (envelope?._type != "MessageError") {
+		return envelope;
+	}
+	let messageError = envelope instanceof RPCMessageError ? envelope : new RPCMessageError(envelope);
+	let registered = errorRegistry.get(messageError.name);
+	if (!registered) {
+		return messageError;
+	}
+	let cause = messageError.cause ? rehydrateError(messageError.cause) : undefined;
+	if (registered.create) {
+		return registered.create(messageError, cause);
+	}
+	let error = Object.create(registered.errorClass.prototype);
+	Object.assign(error, messageError.details ?? {});
+	let fields: { [key: string]: any } = {
+		name: messageError.name,
+		message: messageError.message,
+		stack: messageError.stack ?? messageError.name + ": " + messageError.message,
+	};
+	if (messageError.code !== undefined) {
+		fields.code = messageError.code;
+	}
+	if (cause !== undefined) {
+		fields.cause = cause;
+	}
+	Object.keys(fields).forEach((key) => {
+		Object.defineProperty(error, key, { value: fields[key], enumerable: key == "code", writable: true, configurable: true });
+	});
+	return error;
+}
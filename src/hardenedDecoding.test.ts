@@ -0,0 +1,126 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+	ConectionOptions,
+	generateUUID,
+	getReceivedProxyObject,
+	InMemoryRPCClient,
+	InMemoryRPCHub,
+	ProxyDecodeState,
+	RPCConnection,
+	RPCMessage,
+} from "./index";
+
+/** Decode a payload the way it arrives from the wire, where `__proto__` is an own key */
+function decode(json: string, options: Partial<ConectionOptions> = {}) {
+	let state = new ProxyDecodeState({ ...new ConectionOptions(), ...options });
+	return getReceivedProxyObject(null, "peer", new Map(), JSON.parse(json), state);
+}
+
+function expectPrototypeUntouched() {
+	let probe: any = {};
+	expect(probe.polluted).toBeUndefined();
+	expect((Object.prototype as any).polluted).toBeUndefined();
+	expect(Object.keys(Object.prototype)).toEqual([]);
+}
+
+afterEach(() => {
+	delete (Object.prototype as any).polluted;
+});
+
+describe("hardened decoding", () => {
+	it("drops __proto__ keys", () => {
+		let decoded = decode('{"__proto__":{"polluted":true},"name":"ok"}');
+		expect(decoded.name).toBe("ok");
+		expect(Object.getPrototypeOf(decoded)).toBe(Object.prototype);
+		expect(decoded.polluted).toBeUndefined();
+		expectPrototypeUntouched();
+	});
+
+	it("drops constructor and prototype keys", () => {
+		let decoded = decode('{"constructor":{"prototype":{"polluted":true}},"prototype":{"polluted":true},"a":1}');
+		expect(Object.keys(decoded)).toEqual(["a"]);
+		expect(decoded.constructor).toBe(Object);
+		expectPrototypeUntouched();
+	});
+
+	it("drops unsafe keys nested in arrays", () => {
+		let decoded = decode('[[{"__proto__":{"polluted":true},"constructor":{"prototype":{"polluted":true}},"x":1}]]');
+		expect(decoded[0][0]).toEqual({ x: 1 });
+		expect(Object.getPrototypeOf(decoded[0][0])).toBe(Object.prototype);
+		expectPrototypeUntouched();
+	});
+
+	it("drops unsafe keys inside Map and Set values", () => {
+		let decoded = decode(
+			'{"map":{"___type":"Map","value":[["k",{"__proto__":{"polluted":true},"v":1}],[{"prototype":{"polluted":true}},"x"]]},' +
+				'"set":{"___type":"Set","value":[{"constructor":{"prototype":{"polluted":true}},"s":1}]}}',
+		);
+		expect(decoded.map).toBeInstanceOf(Map);
+		expect(decoded.map.get("k")).toEqual({ v: 1 });
+		expect(Array.from(decoded.map.keys())[1]).toEqual({});
+		expect(Array.from(decoded.set.values())).toEqual([{ s: 1 }]);
+		expectPrototypeUntouched();
+	});
+
+	it("drops unsafe keys inside escaped objects", () => {
+		let decoded = decode('{"value":{"___escaped":{"___ref":"x","__proto__":{"polluted":true}}}}');
+		expect(decoded.value).toEqual({ ___ref: "x" });
+		expect(Object.getPrototypeOf(decoded.value)).toBe(Object.prototype);
+		expectPrototypeUntouched();
+	});
+
+	it("rejects malformed function references", () => {
+		for (let reference of ['"not-a-reference"', "42", '{"a":1}', '"' + generateUUID() + '"', '"x' + generateUUID() + '.f"']) {
+			expect(() => decode('{"f":{"___function":' + reference + "}}")).toThrowError(
+				expect.objectContaining({ code: "INVALID_PAYLOAD" }),
+			);
+		}
+		let decoded = decode('{"f":{"___function":"' + generateUUID() + '.f"}}');
+		expect(typeof decoded.f).toBe("function");
+	});
+
+	it("rejects back-references to unknown paths", () => {
+		expect(() => decode('{"a":{"___ref":".missing"}}')).toThrowError(expect.objectContaining({ code: "INVALID_PAYLOAD" }));
+	});
+
+	it("keeps the old behaviour with hardenedDecoding off", () => {
+		let decoded = decode('{"f":{"___function":"not-a-reference"}}', { hardenedDecoding: false });
+		expect(typeof decoded.f).toBe("function");
+	});
+});
+
+describe("hardened decoding over a connection", () => {
+	it("hands handlers payloads without unsafe keys", async () => {
+		let hub = new InMemoryRPCHub({ serialize: true });
+		let received: any[] = [];
+		let server = new RPCConnection(
+			new InMemoryRPCClient(hub, { clientId: "server", defaultDestinationId: "attacker", baseChannel: "c", getToken: null }),
+			new ConectionOptions(),
+			async (msg) => {
+				received.push(msg.data);
+				return "ok";
+			},
+		);
+		let attacker = new InMemoryRPCClient(hub, { clientId: "attacker", defaultDestinationId: "server", baseChannel: "c", getToken: null });
+		await server.init();
+		await attacker.init();
+		let responses: RPCMessage[] = [];
+		attacker.onMessage = async (msg) => {
+			responses.push(msg);
+		};
+		let request = RPCMessage.request(
+			"attacker",
+			"server",
+			"run",
+			JSON.parse('[{"__proto__":{"polluted":true},"nested":[{"constructor":{"prototype":{"polluted":true}}}]}]'),
+		);
+		await attacker.sendMessage(request);
+		await new Promise((resolve) => setTimeout(resolve, 20));
+		expect(received).toHaveLength(1);
+		expect(received[0][0]).toEqual({ nested: [{}] });
+		expect(responses.map((msg) => msg.data)).toEqual(["ok"]);
+		expectPrototypeUntouched();
+		await server.close();
+		await attacker.close();
+	});
+});
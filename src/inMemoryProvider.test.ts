@@ -0,0 +1,118 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+	InMemoryRPCClient,
+	InMemoryRPCHub,
+	InMemoryRPCHubOptions,
+	InMemoryRPCProviders,
+	RPCConnection,
+	RPCConnectionStatus,
+	RPCMessage,
+	SilentRPCLogger,
+} from "./index";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+let clients: InMemoryRPCClient[] = [];
+
+/** Joined clients that record what they receive and the statuses they go through */
+function createHub(options?: InMemoryRPCHubOptions) {
+	let hub = new InMemoryRPCHub(options);
+	let join = async (clientId: string, baseChannel = "test") => {
+		let statuses: RPCConnectionStatus[] = [];
+		let client = new InMemoryRPCClient(hub, {
+			clientId,
+			defaultDestinationId: "*",
+			baseChannel,
+			getToken: null,
+			onConnectionStatusChange: (status) => statuses.push(status),
+		});
+		let received: RPCMessage[] = [];
+		client.onMessage = async (msg) => {
+			received.push(msg);
+		};
+		await client.init();
+		clients.push(client);
+		return { client, received, statuses };
+	};
+	return { hub, join };
+}
+
+afterEach(async () => {
+	await Promise.all(clients.map((client) => client.close()));
+	clients = [];
+});
+
+describe("InMemoryRPCHub", () => {
+	it("delivers to the destination, to everyone for '*' and to listeners on '*'", async () => {
+		let { join } = createHub();
+		let a = await join("a");
+		let b = await join("b");
+		let c = await join("c");
+		let all = await join("*");
+		let other = await join("b", "other");
+		expect(await a.client.sendMessage(RPCMessage.request("a", "b", "direct", []))).toBe(2);
+		expect(await a.client.sendMessage(RPCMessage.request("a", "*", "broadcast", []))).toBe(3);
+		await sleep(10);
+		expect(a.received).toEqual([]);
+		expect(b.received.map((msg) => msg.functionName)).toEqual(["direct", "broadcast"]);
+		expect(c.received.map((msg) => msg.functionName)).toEqual(["broadcast"]);
+		expect(all.received.map((msg) => msg.functionName)).toEqual(["direct", "broadcast"]);
+		expect(other.received).toEqual([]);
+	});
+
+	it("copies messages unless serialize is off", async () => {
+		for (let serialize of [true, false]) {
+			let { join } = createHub({ serialize });
+			let a = await join("a");
+			let b = await join("b");
+			let message = RPCMessage.request("a", "b", "run", [{ at: 1 }]);
+			await a.client.sendMessage(message);
+			await sleep(10);
+			expect(b.received[0]).toEqual(message);
+			expect(b.received[0] === message).toBe(!serialize);
+		}
+	});
+
+	it("delivers after latencyMs", async () => {
+		let { join } = createHub({ latencyMs: 40 });
+		let a = await join("a");
+		let b = await join("b");
+		await a.client.sendMessage(RPCMessage.request("a", "b", "run", []));
+		await sleep(10);
+		expect(b.received).toEqual([]);
+		await sleep(60);
+		expect(b.received).toHaveLength(1);
+	});
+
+	it("reports status changes and doesn't deliver while disconnected", async () => {
+		let { hub, join } = createHub();
+		let a = await join("a");
+		let b = await join("b");
+		hub.setStatus("disconnected", "down");
+		await expect(a.client.sendMessage(RPCMessage.request("a", "b", "run", []))).rejects.toThrow("not connected");
+		let reconnecting = hub.simulateReconnect("transport close", 20);
+		expect(b.client.status).toBe("reconnecting");
+		await reconnecting;
+		expect(b.statuses).toEqual(["connected", "disconnected", "reconnecting", "connected"]);
+		expect(await a.client.sendMessage(RPCMessage.request("a", "b", "run", []))).toBe(1);
+		await b.client.close();
+		expect(hub.getClients("test")).toEqual([a.client]);
+	});
+
+	it("carries requests between connections of its providers", async () => {
+		let providers = new InMemoryRPCProviders();
+		let connect = (clientId: string, destinationId: string, handler?: (msg: RPCMessage) => Promise<any>) =>
+			new RPCConnection(
+				providers.getClient({ clientId, defaultDestinationId: destinationId, baseChannel: "test", getToken: null }),
+				{ logger: new SilentRPCLogger() },
+				handler,
+			);
+		let host = connect("host", "caller", async (msg) => msg.data[0] * 2);
+		let caller = connect("caller", "host");
+		await host.init();
+		await caller.init();
+		expect(await caller.sendRequest("host", "double", [21])).toBe(42);
+		expect(await providers.getServerBroadcaster().sendMessage("test", RPCMessage.request("server", "*", "note", []))).toBe(2);
+		await Promise.all([host.close(), caller.close()]);
+	});
+});
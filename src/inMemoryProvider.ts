@@ -0,0 +1,189 @@
+import {
+	IGetRPCProviders,
+	IRPCMessageServerBroadcaster,
+	IRPC_Client,
+	RegisterRPCClient,
+	RPCMessage,
+} from "./index";
+import { getDefaultLogger } from "./logger";
+
+export type RPCConnectionStatus = 'connected' | 'disconnected' | 'reconnecting' | 'reconnect_failed';
+
+export class InMemoryRPCHubOptions {
+	/** Delay in ms before a message is delivered (default: 0, next macrotask) */
+	latencyMs?: number = 0;
+	/** Clone messages through JSON like a real socket would (default: true) */
+	serialize?: boolean = true;
+}
+
+/**
+ * Routes RPCMessages between in-memory clients that share a baseChannel.
+ *
+ * A message is delivered to every other connected client on the same channel
+ * whose clientId matches the message destination, or to all of them when the
+ * destination is "*". Clients registered with clientId "*" receive everything.
+ *
+ * Usage:
+ *   const hub = new InMemoryRPCHub();
+ *   const provider = new RPCProvider(new InMemoryRPCProviders(hub));
+ */
+export class InMemoryRPCHub {
+	options: InMemoryRPCHubOptions;
+	private channels: Map<string, Set<InMemoryRPCClient>> = new Map<string, Set<InMemoryRPCClient>>();
+
+	constructor(options?: InMemoryRPCHubOptions) {
+		this.options = { ...new InMemoryRPCHubOptions(), ...options };
+	}
+
+	join(client: InMemoryRPCClient) {
+		let members = this.channels.get(client.baseChannel);
+		if (!members) {
+			members = new Set<InMemoryRPCClient>();
+			this.channels.set(client.baseChannel, members);
+		}
+		members.add(client);
+	}
+
+	leave(client: InMemoryRPCClient) {
+		let members = this.channels.get(client.baseChannel);
+		if (!members) {
+			return;
+		}
+		members.delete(client);
+		if (members.size == 0) {
+			this.channels.delete(client.baseChannel);
+		}
+	}
+
+	/**
+	 * Clients currently joined to a channel, connected or not
+	 */
+	getClients(baseChannel: string): InMemoryRPCClient[] {
+		return Array.from(this.channels.get(baseChannel) ?? []);
+	}
+
+	/**
+	 * Deliver a message to the matching clients of a channel.
+	 * Returns the number of clients the message was delivered to.
+	 */
+	route(baseChannel: string, message: RPCMessage, from?: InMemoryRPCClient): number {
+		let recipients = this.getClients(baseChannel).filter((client) => {
+			if (client === from || client.status != 'connected') {
+				return false;
+			}
+			return message.destination == "*" || client.clientId == "*" || message.destination == client.clientId;
+		});
+		for (let client of recipients) {
+			let copy = this.options.serialize ? JSON.parse(JSON.stringify(message)) : message;
+			setTimeout(() => {
+				if (client.status == 'connected') {
+					client.deliver(copy);
+				}
+			}, this.options.latencyMs ?? 0);
+		}
+		return recipients.length;
+	}
+
+	/**
+	 * Push a connection status change to every client, or to the clients of one channel
+	 */
+	setStatus(status: RPCConnectionStatus, reason?: string, baseChannel?: string) {
+		let clients = baseChannel ? this.getClients(baseChannel) : Array.from(this.channels.values()).flatMap((s) => Array.from(s));
+		clients.forEach((client) => client.setStatus(status, reason));
+	}
+
+	/**
+	 * Simulate the backend dropping and then restoring every connection
+	 */
+	async simulateReconnect(reason: string = "transport close", delayMs: number = 0): Promise<void> {
+		this.setStatus('disconnected', reason);
+		this.setStatus('reconnecting', reason);
+		await new Promise((r) => setTimeout(r, delayMs));
+		this.setStatus('connected');
+	}
+}
+
+/**
+ * IRPC_Client implementation that talks to other clients through an InMemoryRPCHub.
+ */
+export class InMemoryRPCClient implements IRPC_Client {
+	clientId: string;
+	defaultDestinationId: string;
+	baseChannel: string;
+	status: RPCConnectionStatus = 'disconnected';
+	onMessage: (message: RPCMessage) => Promise<void>;
+	onConnectionStatusChange?: (status: RPCConnectionStatus, reason?: string) => void;
+
+	constructor(public hub: InMemoryRPCHub, registerSender: RegisterRPCClient) {
+		this.clientId = registerSender.clientId;
+		this.defaultDestinationId = registerSender.defaultDestinationId;
+		this.baseChannel = registerSender.baseChannel;
+		this.onConnectionStatusChange = registerSender.onConnectionStatusChange;
+	}
+
+	async init(): Promise<void> {
+		this.hub.join(this);
+		this.setStatus('connected');
+	}
+
+	async close(): Promise<void> {
+		this.hub.leave(this);
+		this.setStatus('disconnected', "io client disconnect");
+	}
+
+	async sendMessage(message: RPCMessage): Promise<any> {
+		if (this.status != 'connected') {
+			throw new Error("Client " + this.clientId + " is not connected to " + this.baseChannel);
+		}
+		return this.hub.route(this.baseChannel, message, this);
+	}
+
+	/** Every client of a hub runs this version, which doesn't answer notifications */
+	supportsNotifications(): boolean {
+		return true;
+	}
+
+	setStatus(status: RPCConnectionStatus, reason?: string) {
+		if (this.status == status) {
+			return;
+		}
+		this.status = status;
+		if (this.onConnectionStatusChange) {
+			this.onConnectionStatusChange(status, reason);
+		}
+	}
+
+	deliver(message: RPCMessage) {
+		if (!this.onMessage) {
+			return;
+		}
+		let result = this.onMessage(message);
+		if (result && result.catch) {
+			result.catch((e) => {
+				getDefaultLogger().error("Error handling in-memory message", { clientId: this.clientId, messageId: message.id, error: e });
+			});
+		}
+	}
+}
+
+export class InMemoryServerBroadcaster implements IRPCMessageServerBroadcaster {
+	constructor(public hub: InMemoryRPCHub) { }
+	async sendMessage(channel: string, message: RPCMessage): Promise<any> {
+		return this.hub.route(channel, message);
+	}
+}
+
+/**
+ * IGetRPCProviders backed by an InMemoryRPCHub, for tests and same-process services
+ */
+export class InMemoryRPCProviders implements IGetRPCProviders {
+	constructor(public hub: InMemoryRPCHub = new InMemoryRPCHub()) { }
+
+	getClient(registerSender: RegisterRPCClient): IRPC_Client {
+		return new InMemoryRPCClient(this.hub, registerSender);
+	}
+
+	getServerBroadcaster(): IRPCMessageServerBroadcaster {
+		return new InMemoryServerBroadcaster(this.hub);
+	}
+}
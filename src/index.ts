@@ -1,4 +1,31 @@
 
+import { findValueCodec, getValueCodec, isEncodedValue } from "./codecs";
+import { jsonByteLength, jsonStringByteLength } from "./encoding";
+import { createAbortController, getAbortReasonMessage, RPCAbortController, RPCAbortSignal } from "./cancellation";
+import {
+	getStreamIterator,
+	RPC_STREAM_PULL_FUNCTION,
+	RPCStreamCredit,
+	RPCStreamFrameType,
+	RPCStreamReader,
+	StreamRequestOptions,
+} from "./stream";
+import { rehydrateError } from "./errors";
+import {
+	CallbackStats,
+	getCallbackOptions,
+	RPC_RELEASE_FUNCTION,
+	RPCCallbackLifetime,
+	trackRemoteCallback,
+} from "./callbacks";
+import { RPCInterceptor, RPCInterceptorStage, runInterceptors } from "./interceptors";
+import { getDefaultLogger, RPCLogFields, RPCLogger } from "./logger";
+import { createTracingInterceptor, getTraceHeaders, RPCTraceContext, RPCTracer } from "./tracing";
+import { RPCAccessRule, RPCAuthorizationOptions, RPCAuthorizationRule, RPCAuthorizer, RPCCallerIdentity } from "./authorization";
+import { RPC_PRESENCE_FUNCTION, RPCPresence } from "./presence";
+import { MultiRequestOptions, RPCMultiResult, RPCPeerResult } from "./multiRequest";
+import { collectTransferables, isTransferableValue, RPC_TRANSFER_TAG } from "./transfer";
+
 /**
  * Generate a UUID v4. Uses crypto.randomUUID() if available, otherwise falls back to Math.random()
  * This ensures compatibility across all environments without requiring external dependencies.
@@ -17,28 +44,192 @@ export function generateUUID(): string {
 }
 export class ConectionOptions {
 	timeout?: number = 30000;
+	/** Deepest nesting allowed in arguments and results, on send and receive */
 	maxDepth?: number = 18;
+	/** Largest serialized payload allowed, in UTF-8 bytes (0 disables the check) */
+	maxMessageBytes?: number = 16 * 1024 * 1024;
+	/** Longest array allowed anywhere in a payload */
+	maxArrayLength?: number = 100000;
+	/** Most proxied functions a single payload may carry */
+	maxCallbacksPerMessage?: number = 1000;
+	/** Send handler stack traces to the caller in RPCMessageError.stack (default: false) */
+	includeErrorStack?: boolean = false;
+	/** Lifetime of functions passed to the peer that were not marked with rpcCallback (default: "persistent") */
+	callbackLifetime?: RPCCallbackLifetime = "persistent";
+	/** Release functions the peer sent us once their local proxies are garbage collected (needs FinalizationRegistry) */
+	releaseCallbacksOnGC?: boolean = false;
+	/**
+	 * Decode received payloads defensively (default: true): only own enumerable
+	 * keys are copied, `__proto__`, `constructor` and `prototype` keys are dropped
+	 * and malformed function references are rejected
+	 */
+	hardenedDecoding?: boolean = true;
+	/** Middleware run around every request and response of the connection, see RPCInterceptor */
+	interceptors?: RPCInterceptor[];
+	/** Where the connection writes diagnostics (default: getDefaultLogger()) */
+	logger?: RPCLogger;
+	/** Open client and server spans for requests and propagate them in `traceparent` headers */
+	tracer?: RPCTracer;
+	/**
+	 * On transports that support it, transfer every ArrayBuffer, typed array
+	 * buffer and ImageBitmap in outgoing payloads instead of copying it, leaving
+	 * it unusable on this side (default: false, only values marked with
+	 * rpcTransfer and MessagePorts are transferred)
+	 */
+	transferBinary?: boolean = false;
+	/**
+	 * Which callers may reach which handlers, see RPCAuthorizer. Rules of the
+	 * transport (IRPC_Client.authorizationRules) are checked first.
+	 */
+	authorization?: Partial<RPCAuthorizationOptions>;
 }
 
+export type RPCErrorCode =
+	| "MAX_DEPTH_EXCEEDED"
+	| "MESSAGE_TOO_LARGE"
+	| "ARRAY_TOO_LONG"
+	| "TOO_MANY_CALLBACKS"
+	| "ABORTED"
+	| "TIMEOUT"
+	| "SEND_FAILED"
+	| "PERMISSION_DENIED"
+	| "INVALID_PAYLOAD";
+
+export class RPCErrorOptions {
+	/** Put the stack trace on the wire (default: false, stacks can leak internals) */
+	includeStack?: boolean = false;
+}
+
+const RESERVED_ERROR_FIELDS = ["_type", "name", "message", "code", "stack", "cause", "details", "error"];
+const MAX_CAUSE_DEPTH = 8;
+
+/**
+ * Error envelope sent over the wire. Built from anything that was thrown, it
+ * keeps the name, message, code, cause chain and any extra JSON-safe fields as
+ * `details`. The original error stays available locally as `error` but is not
+ * serialized. Use rehydrateError() to turn a received envelope back into an
+ * instance of a registered error class.
+ */
 export class RPCMessageError {
 	_type = "MessageError";
+	name: string;
 	message: string;
-	constructor(public error: any) {
-		if (typeof error == "string") {
-			this.message = error;
-		} else if (error.message) {
+	code?: RPCErrorCode | string;
+	stack?: string;
+	cause?: RPCMessageError;
+	details?: { [key: string]: any };
+	error: any;
+	constructor(error: any, code?: RPCErrorCode | string, options?: RPCErrorOptions, causeDepth: number = 0) {
+		Object.defineProperty(this, "error", { value: error, enumerable: false, writable: true });
+		if (error?._type == "MessageError") {
+			// already an envelope, e.g. received from a peer
+			this.name = error.name ?? "RPCMessageError";
 			this.message = error.message;
+			if (error.stack !== undefined) {
+				this.stack = error.stack;
+			}
+			if (error.details !== undefined) {
+				this.details = error.details;
+			}
+			if (error.cause) {
+				this.cause = new RPCMessageError(error.cause, undefined, options, causeDepth + 1);
+			}
+		} else if (typeof error == "string") {
+			this.name = "Error";
+			this.message = error;
+		} else if (error == null || typeof error != "object") {
+			this.name = "Error";
+			this.message = String(error);
 		} else {
-			this.message = error.toString();
+			this.name = typeof error.name == "string" ? error.name : "Error";
+			this.message = error.message ? String(error.message) : error.toString();
+			if (options?.includeStack && typeof error.stack == "string") {
+				this.stack = error.stack;
+			}
+			if (error.cause !== undefined && error.cause !== error && causeDepth < MAX_CAUSE_DEPTH) {
+				this.cause = new RPCMessageError(error.cause, undefined, options, causeDepth + 1);
+			}
+			let details = getErrorDetails(error);
+			if (details) {
+				this.details = details;
+			}
+		}
+		let errorCode = code ?? error?.code;
+		if (errorCode !== undefined) {
+			this.code = errorCode;
 		}
 	}
 	toString() {
 		return this.message;
 	}
 }
+
+function getErrorDetails(error: any): { [key: string]: any } | undefined {
+	let details: { [key: string]: any } = {};
+	let found = false;
+	Object.keys(error).forEach((key) => {
+		if (RESERVED_ERROR_FIELDS.includes(key) || typeof error[key] == "function") {
+			return;
+		}
+		try {
+			// only keep what survives JSON as-is
+			details[key] = JSON.parse(JSON.stringify(error[key]) ?? "null");
+			found = true;
+		} catch (e) {
+			// cyclic or otherwise unserializable field, drop it
+		}
+	});
+	return found ? details : undefined;
+}
 export class CallbackHandlerMethods {
 	source: any;
 	func: any;
+	/** Pass an RPCCallContext as the last argument when the handler is called */
+	withContext?: boolean;
+	/**
+	 * What the entry is: a named handler (default), the resolver of a pending
+	 * request, or a function exported to the peer inside a payload
+	 */
+	kind?: "handler" | "response" | "exported";
+	/** Only set for exported functions */
+	lifetime?: RPCCallbackLifetime;
+	/**
+	 * Peer an exported function was sent to, or that a pending request was sent
+	 * to. Only that peer may call or resolve it, unless it is "*".
+	 */
+	destination?: string;
+	createdAt?: number;
+	/** Who may call a named handler, on top of the connection's authorization rules */
+	access?: RPCAccessRule;
+}
+
+/** Reserved function name of the control message that cancels an in-flight request */
+export const RPC_CANCEL_FUNCTION = "___cancel";
+
+/** Control messages are sent without expecting a response, only peers that don't know them answer anyway */
+function isControlFunction(functionName: string): boolean {
+	return [RPC_CANCEL_FUNCTION, RPC_STREAM_PULL_FUNCTION, RPC_RELEASE_FUNCTION, RPC_PRESENCE_FUNCTION].indexOf(functionName) >= 0;
+}
+
+export class RequestOptions {
+	/** Aborting rejects the request and cancels the remote handler */
+	signal?: RPCAbortSignal;
+	/** Extra headers for the request message */
+	headers?: { [key: string]: string };
+	/** Parent span for the request, e.g. `context.trace` inside a handler */
+	trace?: RPCTraceContext;
+}
+
+/**
+ * Per-call information handed to request handlers: the incoming message and a
+ * signal that aborts when the caller cancels the request or the connection closes.
+ */
+export class RPCCallContext {
+	/** Context of the server span around the handler, when the connection has a tracer */
+	trace?: RPCTraceContext;
+	/** The caller as seen by the authorization check */
+	identity?: RPCCallerIdentity;
+	constructor(public message: RPCMessage, public signal: RPCAbortSignal) { }
 }
 function getProps(obj: any) {
 	var p = [];
@@ -107,6 +298,159 @@ export function getPropertyNames(obj) {
 	return props;
 }
 
+/**
+ * Tracks the objects already written while encoding one payload, so repeated
+ * and cyclic references are sent as `{ ___ref: path }` back-references to the
+ * first place the object appeared. Paths are relative to the payload root.
+ */
+export class ProxyEncodeState {
+	seen: Map<object, string> = new Map<object, string>();
+	/** ids of the functions registered in the callbacks map while encoding */
+	callbackIds: string[] = [];
+	/** Send binary values and ports as they are, for transports that structured-clone */
+	structuredClone: boolean = false;
+	/** Set once such a value is found, with the objects to transfer */
+	transfer: any[] | null = null;
+	/** Size of the payload encoded so far as JSON, in bytes, with binary values at their byte length */
+	size: number = 0;
+	constructor(public rootId: string, public options?: ConectionOptions, public destination?: string) { }
+	getPath(id: string): string {
+		return id.substring(this.rootId.length);
+	}
+}
+
+/**
+ * Objects rebuilt so far while decoding one payload, by path, used to resolve `___ref`s
+ */
+export class ProxyDecodeState {
+	objects: Map<string, any> = new Map<string, any>();
+	callbackCount: number = 0;
+	constructor(public options?: ConectionOptions) { }
+}
+
+function checkPayloadLimits(source: any, depth: number, maxDepth: number, options: ConectionOptions) {
+	if (depth > maxDepth) {
+		throw new RPCMessageError("Payload exceeds the maximum depth of " + maxDepth, "MAX_DEPTH_EXCEEDED");
+	}
+	if (Array.isArray(source) && options?.maxArrayLength && source.length > options.maxArrayLength) {
+		throw new RPCMessageError(
+			"Array of length " + source.length + " exceeds the maximum of " + options.maxArrayLength,
+			"ARRAY_TOO_LONG",
+		);
+	}
+}
+
+function countCallback(count: number, options: ConectionOptions) {
+	if (options?.maxCallbacksPerMessage && count > options.maxCallbacksPerMessage) {
+		throw new RPCMessageError(
+			"Payload carries more than " + options.maxCallbacksPerMessage + " functions",
+			"TOO_MANY_CALLBACKS",
+		);
+	}
+}
+
+/** Keys that could reach an object's prototype when copied from received data */
+const UNSAFE_KEYS = ["__proto__", "constructor", "prototype"];
+/** Function references are the id of the payload root (a UUID) followed by the property path */
+const FUNCTION_REFERENCE_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\..+$/i;
+
+function getReceivedKeys(source: any, options: ConectionOptions): string[] {
+	if (options?.hardenedDecoding === false) {
+		return getPropertyNames(source);
+	}
+	return Object.keys(source).filter((key) => UNSAFE_KEYS.indexOf(key) < 0);
+}
+
+function checkFunctionReference(reference: any, options: ConectionOptions) {
+	if (options?.hardenedDecoding === false) {
+		return;
+	}
+	if (typeof reference != "string" || !FUNCTION_REFERENCE_PATTERN.test(reference)) {
+		throw new RPCMessageError("Invalid function reference " + JSON.stringify(String(reference).substring(0, 100)), "INVALID_PAYLOAD");
+	}
+}
+
+/** Buffers sent as they are count with their byte length, see checkPayloadSize */
+function binaryByteLength(value: any): number | undefined {
+	return isTransferableValue(value) ? value.byteLength ?? 0 : undefined;
+}
+
+/** Register a function found in a payload as a callback the peer may call, and refer to it by id */
+function exportFunction(
+	id: string,
+	owner: any,
+	func: Function,
+	callbacks: Map<string, CallbackHandlerMethods>,
+	state: ProxyEncodeState,
+) {
+	let reference = { ___function: id };
+	state.size += jsonByteLength(reference);
+	state.callbackIds.push(id);
+	countCallback(state.callbackIds.length, state.options);
+	callbacks.set(id, {
+		source: owner,
+		func,
+		kind: "exported",
+		lifetime: getCallbackOptions(func)?.lifetime ?? state.options?.callbackLifetime ?? "persistent",
+		destination: state.destination,
+		createdAt: Date.now(),
+	});
+	return reference;
+}
+
+/** A function that calls the callback the peer exported as `reference` */
+function importFunction(connection: RPCConnection, destination: string, reference: any, state: ProxyDecodeState) {
+	checkFunctionReference(reference, state.options);
+	state.callbackCount++;
+	countCallback(state.callbackCount, state.options);
+	let func = async (...args): Promise<any> => {
+		connection?.logger.debug("Calling remote function", {
+			clientId: connection.sender?.clientId,
+			functionName: reference,
+			destination,
+		});
+		return new Promise(async (resolve, reject) => {
+			try {
+				let arr = Array.from(args);
+				let d = await connection.sendRequest(
+					destination,
+					reference,
+					arr,
+				);
+				if (d?._type == "MessageError") {
+					return reject(d);
+				}
+				resolve(d);
+			} catch (e) {
+				reject(e);
+			}
+		});
+	};
+	connection?.trackRemoteCallback(func, destination, reference);
+	return func;
+}
+
+function isBackReference(source: any): boolean {
+	return typeof source.___ref == "string" && Object.keys(source).length == 1;
+}
+
+/** Keys the decoder reads as markers, objects of the caller that have one are sent escaped */
+const RESERVED_KEYS = ["___ref", "___type", "___function", "___escaped"];
+const ESCAPE_SIZE = '{"___escaped":}'.length;
+
+function needsEscape(encoded: any): boolean {
+	return RESERVED_KEYS.some((key) => Object.prototype.hasOwnProperty.call(encoded, key));
+}
+
+/**
+ * `{ ___escaped: object }` wraps an object whose keys are to be taken literally,
+ * such as a caller's `{ ___ref: "x" }`
+ */
+function isEscapedObject(source: any): boolean {
+	let inner = source.___escaped;
+	return inner !== null && typeof inner == "object" && !Array.isArray(inner) && Object.keys(source).length == 1;
+}
+
 export function getRequestProxyObject(
 	id: string,
 	sender: IRPC_Client,
@@ -114,11 +458,57 @@ export function getRequestProxyObject(
 	source: any,
 	depth: number,
 	maxDepth: number,
+	state?: ProxyEncodeState,
 ) {
 	//let retval = {};
+	state = state ?? new ProxyEncodeState(id);
+	// a top level undefined is left alone so void results stay undefined on the wire
+	if (source === null || (source === undefined && depth == 0)) {
+		state.size += source === null ? 4 : 0;
+		return source;
+	}
+	if (typeof source == "object") {
+		checkPayloadLimits(source, depth, maxDepth ?? 99, state.options);
+		let path = state.seen.get(source);
+		if (path !== undefined) {
+			let reference = { ___ref: path };
+			state.size += jsonByteLength(reference);
+			return reference;
+		}
+		state.seen.set(source, state.getPath(id));
+	}
+	if (state.structuredClone && isTransferableValue(source)) {
+		state.transfer = state.transfer ?? [];
+		collectTransferables(source, state.transfer, state.options?.transferBinary);
+		let transferred = { ___type: RPC_TRANSFER_TAG, value: source };
+		state.size += jsonByteLength(transferred, binaryByteLength);
+		return transferred;
+	}
+	let codec = findValueCodec(source);
+	if (codec) {
+		let size = state.size;
+		let encoded = {
+			___type: codec.tag,
+			value: codec.encode(source, (value, key) =>
+				getRequestProxyObject(
+					id + "." + key,
+					sender,
+					callbacks,
+					value,
+					depth + 1,
+					maxDepth,
+					state,
+				),
+			),
+		};
+		// the nested values are part of the codec's output, which is measured as a whole
+		state.size = size + jsonByteLength(encoded, binaryByteLength);
+		return encoded;
+	}
 	//check if source is an array
 	if (Array.isArray(source)) {
 		let arrRetVal = new Array<any>();
+		state.size += 2 + Math.max(source.length - 1, 0);
 		source.forEach((item, index) => {
 			arrRetVal.push(
 				getRequestProxyObject(
@@ -128,6 +518,7 @@ export function getRequestProxyObject(
 					item,
 					depth + 1,
 					maxDepth,
+					state,
 				),
 			);
 		});
@@ -135,42 +526,39 @@ export function getRequestProxyObject(
 	}
 	if (typeof source == "object") {
 		let retval = {};
-		getPropertyNames(source).forEach((i) => {
+		let names = getPropertyNames(source);
+		state.size += 2 + Math.max(names.length - 1, 0);
+		names.forEach((i) => {
 			let prop = source[i];
+			state.size += jsonStringByteLength(i) + 1;
 			//check it is a function
 			if (typeof prop == "function") {
-				retval[i] = {
-					___function: id + "." + i,
-				};
-
-				callbacks.set(id + "." + i, { source: source, func: prop });
-			}
-			// check type of object
-			else if (typeof prop == "object" || Array.isArray(prop)) {
-				if (depth <= 99) {
-					retval[i] = getRequestProxyObject(
-						id + "." + i,
-						sender,
-						callbacks,
-						prop,
-						depth + 1,
-						maxDepth,
-					);
-				} else {
-					retval[i] = prop;
-				}
+				retval[i] = exportFunction(id + "." + i, source, prop, callbacks, state);
 			} else {
-				retval[i] = source[i];
+				retval[i] = getRequestProxyObject(
+					id + "." + i,
+					sender,
+					callbacks,
+					prop,
+					depth + 1,
+					maxDepth,
+					state,
+				);
 			}
 		});
-		if(Object.keys(retval).length == 0)
-		{
-			return null;
+		if (needsEscape(retval)) {
+			state.size += ESCAPE_SIZE;
+			return { ___escaped: retval };
 		}
 		return retval;
 	} else if (typeof source == "function") {
-		throw new Error("root can't be a function");
+		if (depth == 0) {
+			throw new Error("root can't be a function");
+		}
+		// an array item or a value held by a codec, e.g. in a Map
+		return exportFunction(id, null, source, callbacks, state);
 	} else {
+		state.size += jsonByteLength(source);
 		return source;
 	}
 	//return retval;
@@ -181,49 +569,73 @@ export function getReceivedProxyObject(
 	destination: string,
 	callbacks: Map<string, CallbackHandlerMethods>,
 	source: any,
+	state?: ProxyDecodeState,
+	path: string = "",
+	depth: number = 0,
 ) {
 	
 	let retval = {};
+	state = state ?? new ProxyDecodeState(connection?.options);
+	if (source === null) {
+		return null;
+	}
+	if (typeof source == "object") {
+		checkPayloadLimits(source, depth, state.options?.maxDepth ?? 99, state.options);
+	}
 	if (Array.isArray(source)) {
 		let arrRetVal = new Array<any>();
+		state.objects.set(path, arrRetVal);
 		source.forEach((item, index) => {
 			arrRetVal.push(
-				getReceivedProxyObject(connection, destination, callbacks, item),
+				getReceivedProxyObject(connection, destination, callbacks, item, state, path + "." + index, depth + 1),
 			);
 		});
 		return arrRetVal;
 	}
 	if (typeof source == "object") {
-		getPropertyNames(source).forEach((i) => {
+		if (depth > 0 && source.___function) {
+			// an array item or a value held by a codec, object properties are handled below
+			return importFunction(connection, destination, source.___function, state);
+		}
+		if (isEscapedObject(source)) {
+			source = source.___escaped;
+		} else if (isBackReference(source)) {
+			if (!state.objects.has(source.___ref)) {
+				throw new RPCMessageError("Unknown reference " + JSON.stringify(source.___ref.substring(0, 100)), "INVALID_PAYLOAD");
+			}
+			return state.objects.get(source.___ref);
+		} else if (isEncodedValue(source)) {
+			checkPayloadLimits(source.value, depth, state.options?.maxDepth ?? 99, state.options);
+			let codec = getValueCodec(source.___type);
+			let decodeNested = (value: any, key: string) =>
+				getReceivedProxyObject(connection, destination, callbacks, value, state, path + "." + key, depth + 1);
+			if (codec.create && codec.fill) {
+				// registered before its entries are decoded, so they can refer back to it
+				let target = codec.create(source.value);
+				state.objects.set(path, target);
+				codec.fill(target, source.value, decodeNested);
+				return target;
+			}
+			let decoded = codec.decode(source.value, decodeNested);
+			state.objects.set(path, decoded);
+			return decoded;
+		}
+		state.objects.set(path, retval);
+		getReceivedKeys(source, state.options).forEach((i) => {
 			let prop = 	source[i];
 			if (!prop) {
 				retval[i] = source[i];
 			} else if (prop.___function) {
-				retval[i] = async (...args): Promise<any> => {
-					console.log("sending request " + prop.___function);
-					return new Promise(async (resolve, reject) => {
-						try {
-							let arr = Array.from(args);
-							let d = await connection.sendRequest(
-								destination,
-								prop.___function,
-								arr,
-							);
-							if (d?._type == "MessageError") {
-								return reject(d);
-							}
-							resolve(d);
-						} catch (e) {
-							reject(e);
-						}
-					});
-				};
+				retval[i] = importFunction(connection, destination, prop.___function, state);
 			} else if (typeof prop == "object" || Array.isArray(prop)) {
 				retval[i] = getReceivedProxyObject(
 					connection,
 					destination,
 					callbacks,
 					prop,
+					state,
+					path + "." + i,
+					depth + 1,
 				);
 			} else {
 				retval[i] = source[i];
@@ -246,8 +658,26 @@ export class RPCMessage {
 	data: any;
 	sendOnlyIfThereIsAListener?: boolean = false;
 	host_id: string;
-	/** Origin of the PostMessage (for CORS validation) */
+	/**
+	 * Origin of the PostMessage (for CORS validation). Set by transports with
+	 * IRPC_Client.reportsOrigin, never taken from the sender.
+	 */
 	origin?: string;
+	/** Set on the request and response frames of a streamed call */
+	stream?: RPCStreamFrameType;
+	/** Position of a stream frame, so frames can be put back in order */
+	seq?: number;
+	/** Items the consumer lets the producer send before the first pull */
+	credits?: number;
+	/** Metadata about the message, such as the W3C `traceparent` of the caller's span */
+	headers?: { [key: string]: string };
+	/** Set on requests that expect no response, see RPCConnection.sendNotification */
+	notification?: boolean;
+	/**
+	 * Set when the payload holds values for structured clone, listing the ones
+	 * to transfer. Used by the transport, never sent.
+	 */
+	transfer?: any[];
 	static request(
 		source: string,
 		destination: string,
@@ -305,6 +735,47 @@ export interface IRPC_Client{
 	init(): Promise<void>;
 	close(): Promise<void>;
 	sendMessage(message: RPCMessage): Promise<any>;
+	/**
+	 * Whether messages are structured-cloned, so binary values and MessagePorts
+	 * can be sent as they are and RPCMessage.transfer is honoured
+	 */
+	supportsTransfer?(): boolean;
+	/**
+	 * Whether the peer runs RPCMessage.notification requests without answering
+	 * them. Without it the connection expects late responses to notifications.
+	 */
+	supportsNotifications?(): boolean;
+	/** Authorization rules the transport enforces, e.g. from its allowed origins */
+	authorizationRules?: RPCAuthorizationRule[];
+	/**
+	 * The transport sets RPCMessage.origin itself, from where the message
+	 * really came from. Without it the origin a peer put on its message is
+	 * dropped, so authorization never trusts a claimed origin.
+	 */
+	reportsOrigin?: boolean;
+}
+
+/** Hand the values collected while encoding to the transport, see RPCMessage.transfer */
+function setTransfer(msg: RPCMessage, state: ProxyEncodeState) {
+	if (state.transfer) {
+		msg.transfer = state.transfer;
+	}
+}
+
+function setRequestHeaders(msg: RPCMessage, options: RequestOptions) {
+	if (options?.headers || options?.trace) {
+		msg.headers = { ...msg.headers, ...options.headers, ...(options.trace ? getTraceHeaders(options.trace) : {}) };
+	}
+}
+
+/** A stream this side is consuming, with the peer expected to produce it */
+class IncomingStream {
+	constructor(public reader: RPCStreamReader, public destinationId: string) { }
+}
+
+/** Whether a message from `source` may reach something bound to `destination` */
+function isBoundTo(destination: string, source: string): boolean {
+	return destination === undefined || destination == "*" || destination == source;
 }
 
 export class RPCConnection {
@@ -312,13 +783,38 @@ export class RPCConnection {
 		string,
 		CallbackHandlerMethods
 	>();
-	onMessage: (msg: RPCMessage) => Promise<any>;
+	/** Abort controllers of the requests this side is currently handling, by source and id */
+	private inflightRequests: Map<string, RPCAbortController> = new Map<string, RPCAbortController>();
+	/** Streams this side is consuming, by request id */
+	private incomingStreams: Map<string, IncomingStream> = new Map<string, IncomingStream>();
+	/** Credits of the streams this side is producing, by source and id */
+	private outgoingStreams: Map<string, RPCStreamCredit> = new Map<string, RPCStreamCredit>();
+	/** Releases of remote functions whose proxies were collected, batched by destination */
+	private pendingReleases: Map<string, string[]> = new Map<string, string[]>();
+	/** Requests whose late responses are dropped quietly, by id, with the time they are forgotten */
+	private settledRequests: Map<string, number> = new Map<string, number>();
+	private releaseTimer: any = null;
+	private callbackFinalizer: any = null;
+	onMessage: (msg: RPCMessage, context?: RPCCallContext) => Promise<any>;
+	interceptors: RPCInterceptor[];
+	authorizer: RPCAuthorizer;
+	/** Set while an RPCPresence runs on the connection */
+	presence: RPCPresence | null = null;
 	constructor(
 		public sender: IRPC_Client,
 		public options: ConectionOptions,
-		onMessage?: (msg: RPCMessage) => Promise<any>,
+		onMessage?: (msg: RPCMessage, context?: RPCCallContext) => Promise<any>,
 	) {
-		this.options = options ?? new ConectionOptions();
+		this.options = { ...new ConectionOptions(), ...options };
+		this.interceptors = [...(this.options.interceptors ?? [])];
+		if (this.options.tracer) {
+			// outermost, so spans cover the other interceptors
+			this.interceptors.unshift(createTracingInterceptor(this.options.tracer));
+		}
+		this.authorizer = new RPCAuthorizer({
+			...this.options.authorization,
+			rules: [...(sender.authorizationRules ?? []), ...(this.options.authorization?.rules ?? [])],
+		});
 
 		if (!onMessage) {
 			this.onMessage = async (msg: RPCMessage): Promise<any> => {
@@ -329,19 +825,146 @@ export class RPCConnection {
 		}
 		sender.onMessage = this.incommingMessage.bind(this);
 	}
+	get logger(): RPCLogger {
+		return this.options.logger ?? getDefaultLogger();
+	}
 	log(msg: string, data?: any, data2?: any) {
-		console.log(this.sender.clientId, msg, data, data2);
+		this.logger.debug(msg, { clientId: this.sender.clientId, data: data2 === undefined ? data : [data, data2] });
+	}
+	/** The structured fields describing `msg`, for log entries about it */
+	logFields(msg: RPCMessage, fields?: RPCLogFields): RPCLogFields {
+		return {
+			clientId: this.sender?.clientId,
+			messageId: msg.id,
+			functionName: msg.functionName,
+			direction: msg.direction,
+			source: msg.source,
+			destination: msg.destination,
+			...fields,
+		};
 	}
 	async init() {
 		await this.sender.init();
 	}
-	close() {
+	/**
+	 * Add an interceptor after the ones already configured, see RPCInterceptor
+	 */
+	use(interceptor: RPCInterceptor): this {
+		this.interceptors.push(interceptor);
+		return this;
+	}
+	private intercept(stage: RPCInterceptorStage, msg: RPCMessage, core: (msg: RPCMessage) => Promise<any>, context?: RPCCallContext) {
+		return runInterceptors(this.interceptors, stage, msg, core, context);
+	}
+	/**
+	 * Encode an outgoing payload, enforcing the connection limits. Functions
+	 * registered while encoding are bound to `destinationId` and removed again
+	 * if the payload is rejected.
+	 */
+	encodePayload(data: any, destinationId?: string, state?: ProxyEncodeState): any {
+		state = state ?? new ProxyEncodeState(generateUUID(), this.options);
+		state.destination = destinationId;
+		state.structuredClone = this.supportsTransfer();
+		try {
+			let payload = getRequestProxyObject(
+				state.rootId,
+				this.sender,
+				this.callbacks,
+				data,
+				0,
+				this.options.maxDepth,
+				state,
+			);
+			// measured while encoding, see ProxyEncodeState.size
+			this.checkMessageSize(state.size);
+			return payload;
+		} catch (e) {
+			state.callbackIds.forEach((id) => this.callbacks.delete(id));
+			throw e;
+		}
+	}
+	decodePayload(msg: RPCMessage): any {
+		this.checkPayloadSize(msg.data, this.supportsTransfer());
+		return getReceivedProxyObject(
+			this,
+			msg.source,
+			this.callbacks,
+			msg.data,
+			new ProxyDecodeState(this.options),
+		);
+	}
+	/**
+	 * Enforce maxMessageBytes on a payload, measured without serializing it.
+	 * With `binary`, buffers count with their byte length instead of as JSON.
+	 */
+	checkPayloadSize(payload: any, binary: boolean = false) {
+		if (!this.options.maxMessageBytes || payload === undefined) {
+			return;
+		}
+		this.checkMessageSize(jsonByteLength(payload, binary ? binaryByteLength : undefined));
+	}
+	private checkMessageSize(size: number) {
+		if (this.options.maxMessageBytes && size > this.options.maxMessageBytes) {
+			throw new RPCMessageError(
+				"Payload of " + size + " bytes exceeds the maximum of " + this.options.maxMessageBytes,
+				"MESSAGE_TOO_LARGE",
+			);
+		}
+	}
+	/**
+	 * Wrap anything a handler threw in an RPCMessageError, following the connection's stack policy
+	 */
+	toMessageError(error: any, code?: RPCErrorCode | string): RPCMessageError {
+		return new RPCMessageError(error, code, { includeStack: this.options.includeErrorStack });
+	}
+	private sendResponse(msg: RPCMessage, response: any) {
+		let payload: any;
+		let state = new ProxyEncodeState(generateUUID(), this.options);
+		try {
+			// error envelopes go out as-is, the proxy encoding would pick up their local `error`
+			payload = response instanceof RPCMessageError ? response : this.encodePayload(response, msg.source, state);
+		} catch (e) {
+			this.logger.error("Response rejected", this.logFields(msg, { error: e }));
+			payload = this.toMessageError(e);
+			state.transfer = null;
+		}
+		let responseMessage = RPCMessage.response(msg, payload);
+		setTransfer(responseMessage, state);
+		return this.sendResponseMessage(responseMessage);
+	}
+	/**
+	 * Whether the transport structured-clones messages, see IRPC_Client.supportsTransfer
+	 */
+	supportsTransfer(): boolean {
+		return !!this.sender?.supportsTransfer?.();
+	}
+	private sendResponseMessage(response: RPCMessage): Promise<any> {
+		if (response.source == "*") {
+			// answering a request to every peer: say who answered
+			response.source = this.sender.clientId;
+		}
+		return this.intercept("outboundResponse", response, async (m) => this.sender.sendMessage(m));
+	}
+	/**
+	 * Abort everything in flight and close the transport, once the presence
+	 * (if any) said goodbye through it
+	 */
+	async close() {
+		let leaving = this.presence?.stop();
+		this.inflightRequests.forEach((controller) => controller.abort("Connection closed"));
+		this.inflightRequests.clear();
+		this.incomingStreams.forEach((stream) => stream.reader.fail(new RPCMessageError("Connection closed", "ABORTED")));
+		this.incomingStreams.clear();
 		this.callbacks.clear();
+		this.settledRequests.clear();
+		clearTimeout(this.releaseTimer);
+		this.pendingReleases.clear();
 		// Break the circular reference between RPCConnection and sender
 		if (this.sender) {
 			this.sender.onMessage = undefined; 
 		}
-		this.sender.close();
+		await leaving;
+		await this.sender.close();
 	}
 	async sendRequestToHost(
 		functionName: string,
@@ -359,188 +982,726 @@ export class RPCConnection {
 		destinationId: string,
 		functionName: string,
 		data: Array<any> | any,
-		timeoutMs?:number
+		timeoutMs?:number,
+		options?: RequestOptions,
 	): Promise<any> {
+		let signal = options?.signal;
+		let state = new ProxyEncodeState(generateUUID(), this.options);
+		try {
+			if (signal?.aborted) {
+				throw new RPCMessageError(getAbortReasonMessage(signal), "ABORTED");
+			}
+			let sendData = Array.isArray(data) ? data : [data];
+			let msg = new RPCMessage(
+				this.sender.clientId,
+				destinationId,
+				"request",
+				functionName,
+				this.encodePayload(sendData, destinationId, state),
+			);
+			msg.id = generateUUID();
+			setTransfer(msg, state);
+			setRequestHeaders(msg, options);
+			return await this.intercept("outboundRequest", msg, (request) => this.dispatchRequest(request, timeoutMs, signal));
+		} finally {
+			this.releaseRequestCallbacks(state);
+		}
+	}
+	/**
+	 * Call a remote handler without waiting for it: the peer sends no response
+	 * and nothing is kept around for one. Resolves once the transport has taken
+	 * the message. Meant for high-frequency events such as progress updates;
+	 * errors of the handler are only logged on the receiving side. Functions in
+	 * `data` must outlive the call, so mark them persistent.
+	 *
+	 * Usage:
+	 *   await connection.sendNotification('chat', 'onIntermediateStepUpdate', [step]);
+	 */
+	async sendNotification(
+		destinationId: string,
+		functionName: string,
+		data: Array<any> | any,
+		options?: RequestOptions,
+	): Promise<void> {
+		let state = new ProxyEncodeState(generateUUID(), this.options);
+		try {
+			if (options?.signal?.aborted) {
+				throw new RPCMessageError(getAbortReasonMessage(options.signal), "ABORTED");
+			}
+			let sendData = Array.isArray(data) ? data : [data];
+			let msg = new RPCMessage(
+				this.sender.clientId,
+				destinationId,
+				"request",
+				functionName,
+				this.encodePayload(sendData, destinationId, state),
+			);
+			msg.notification = true;
+			if (!this.sender.supportsNotifications?.()) {
+				// peers that predate notifications answer them anyway
+				this.settleRequest(msg.id);
+			}
+			setTransfer(msg, state);
+			setRequestHeaders(msg, options);
+			await this.intercept("outboundRequest", msg, async (notification) => {
+				await this.sender.sendMessage(notification);
+			});
+		} finally {
+			this.releaseRequestCallbacks(state);
+		}
+	}
+	/**
+	 * Send a request to several peers and gather their answers: to every peer
+	 * listening with "*", or to each client id of a list. Collects until
+	 * expectedCount peers answered or windowMs passed, then resolves with the
+	 * result or error of every peer that answered. Handlers still running when
+	 * the window closes are cancelled.
+	 *
+	 * Usage:
+	 *   const { results, missing } = await connection.sendMultiRequest('*', 'getState', [], { windowMs: 500 });
+	 *   results.forEach((r) => r.ok ? render(r.peerId, r.value) : report(r.peerId, r.error));
+	 */
+	async sendMultiRequest<T = any>(
+		destinations: "*" | string[],
+		functionName: string,
+		data: Array<any> | any,
+		options?: MultiRequestOptions,
+	): Promise<RPCMultiResult<T>> {
+		let signal = options?.signal;
+		if (signal?.aborted) {
+			throw new RPCMessageError(getAbortReasonMessage(signal), "ABORTED");
+		}
+		let peers = destinations == "*" ? null : Array.from(new Set(destinations));
+		let targets = peers ?? ["*"];
+		let expected = options?.expectedCount ?? (peers ? peers.length : Infinity);
+		let result = new RPCMultiResult<T>();
+		if (targets.length == 0 || expected <= 0) {
+			return result;
+		}
+		let requestId = generateUUID();
+		let sendData = Array.isArray(data) ? data : [data];
+		let states = targets.map(() => new ProxyEncodeState(generateUUID(), this.options));
+		let answered = new Set<string>();
+		let complete: () => void;
+		let fail: (error: any) => void;
+		let collected = new Promise<void>((resolve, reject) => {
+			complete = resolve;
+			fail = reject;
+		});
+		collected.catch(() => undefined); // awaited once the requests are sent, an abort may come first
+		let record = (peerId: string, answer: RPCPeerResult<T>) => {
+			if (peers && peers.indexOf(peerId) < 0) {
+				this.logger.warn("Ignoring response from unexpected peer", { clientId: this.sender.clientId, messageId: requestId, functionName, source: peerId });
+				return;
+			}
+			if (answered.has(peerId)) {
+				this.logger.warn("Response already received", { clientId: this.sender.clientId, messageId: requestId, functionName, source: peerId });
+				return;
+			}
+			answered.add(peerId);
+			result.results.push(answer);
+			if (result.results.length >= expected) {
+				complete();
+			}
+		};
+		let onAbort = () => fail(new RPCMessageError(getAbortReasonMessage(signal), "ABORTED"));
+		this.callbacks.set(requestId, {
+			source: this.sender,
+			kind: "response",
+			destination: "*",
+			func: (response: any, peerId: string) =>
+				record(
+					peerId,
+					response?._type == "MessageError"
+						? new RPCPeerResult<T>(peerId, false, undefined, rehydrateError(response))
+						: new RPCPeerResult<T>(peerId, true, response),
+				),
+		});
+		let timer = setTimeout(() => {
+			result.timedOut = true;
+			complete();
+		}, options?.windowMs ?? this.options.timeout ?? 30000);
+		signal?.addEventListener("abort", onAbort, { once: true });
+		try {
+			let sends = targets.map((target, i) => {
+				let msg = new RPCMessage(
+					this.sender.clientId,
+					target,
+					"request",
+					functionName,
+					this.encodePayload(sendData, target, states[i]),
+				);
+				msg.id = requestId;
+				setTransfer(msg, states[i]);
+				setRequestHeaders(msg, options);
+				return this.intercept("outboundRequest", msg, async (request) => {
+					await this.sender.sendMessage(request);
+				}).catch((e) => {
+					if (!peers) {
+						throw e;
+					}
+					// one unreachable peer doesn't fail the others
+					record(target, new RPCPeerResult<T>(target, false, undefined, this.toMessageError(e, "SEND_FAILED")));
+				});
+			});
+			await Promise.all(sends);
+			await collected;
+		} catch (e) {
+			let reason = signal?.aborted ? getAbortReasonMessage(signal) : "Request failed";
+			targets.forEach((target) => this.sendCancel(target, requestId, reason));
+			throw e;
+		} finally {
+			clearTimeout(timer);
+			this.callbacks.delete(requestId);
+			// peers that answer after the window closed
+			this.settleRequest(requestId);
+			signal?.removeEventListener("abort", onAbort);
+			states.forEach((state) => this.releaseRequestCallbacks(state));
+		}
+		if (peers) {
+			result.missing = peers.filter((peerId) => !answered.has(peerId));
+			result.missing.forEach((peerId) => this.sendCancel(peerId, requestId, "Timeout"));
+		} else {
+			// peers that already answered ignore it
+			this.sendCancel("*", requestId, result.timedOut ? "Timeout" : "Enough responses");
+		}
+		return result;
+	}
+	/**
+	 * Stop expecting responses to a request, without warning about the ones that
+	 * still arrive within the connection timeout
+	 */
+	private settleRequest(requestId: string) {
+		let now = Date.now();
+		// kept in insertion order, so the entries to forget come first
+		for (let [id, expiry] of this.settledRequests) {
+			if (expiry >= now) {
+				break;
+			}
+			this.settledRequests.delete(id);
+		}
+		this.settledRequests.delete(requestId);
+		this.settledRequests.set(requestId, now + (this.options.timeout ?? 30000));
+	}
+	/**
+	 * Send a request and wait for its response, at the end of the outbound interceptors
+	 */
+	private dispatchRequest(msg: RPCMessage, timeoutMs: number, signal: RPCAbortSignal): Promise<any> {
+		let requestId = msg.id;
+		let destinationId = msg.destination;
+		let functionName = msg.functionName;
 		return new Promise(async (resolve, reject) => {
+			let responseSent = false;
+			let timer: any;
+			let settle = () => {
+				responseSent = true;
+				clearTimeout(timer);
+				this.callbacks.delete(requestId);
+				signal?.removeEventListener("abort", onAbort);
+			};
+			let onAbort = () => {
+				if (responseSent) {
+					return;
+				}
+				settle();
+				let reason = getAbortReasonMessage(signal);
+				reject(new RPCMessageError(reason, "ABORTED"));
+				this.sendCancel(destinationId, requestId, reason);
+			};
 			try {
-				let sendData = Array.isArray(data) ? data : [data];
+				if (signal?.aborted) {
+					throw new RPCMessageError(getAbortReasonMessage(signal), "ABORTED");
+				}
 
-				let responseSent = false;
-				let requestId = generateUUID();
 				this.callbacks.set(requestId, {
 					source: this.sender,
+					kind: "response",
+					destination: destinationId,
 					func: (...args) => {
 						
 						if (responseSent) {
-							console.warn("Response already sent for " + functionName);
+							this.logger.warn("Response already received", this.logFields(msg, { direction: "response" }));
 							return;
 						}
-						responseSent = true;
+						settle();
 						if (args[0]?._type == "MessageError") {
-							reject(args[0]);
+							reject(rehydrateError(args[0]));
 							return;
 						}
 						resolve(args[0]);
 					},
 				});
-				let proxyObject = getRequestProxyObject(
-					generateUUID(),
-					this.sender,
-					this.callbacks,
-					sendData,
-					0,
-					this.options.maxDepth,
-				);
 
-				setTimeout(() => {
+				timer = setTimeout(() => {
 					if(!responseSent)
 					{
-						responseSent = true;
-						reject(new RPCMessageError("Timeout waiting for response from " + destinationId + " for " + functionName));
+						settle();
+						reject(new RPCMessageError("Timeout waiting for response from " + destinationId + " for " + functionName, "TIMEOUT"));
+						// the caller gave up, so stop the remote handler too
+						this.sendCancel(destinationId, requestId, "Timeout");
 					}
 				},
 					timeoutMs??this.options?.timeout ?? 30000,
 				);
-
-
-				
-				let msg = new RPCMessage(
-					this.sender.clientId,
-					destinationId,
-					"request",
-					functionName,
-					proxyObject,
-				);
-				msg.id = requestId;
+				signal?.addEventListener("abort", onAbort, { once: true });
 			
 				await this.sender.sendMessage(msg);
 			} catch (e) {
+				settle();
 				reject(e);
 			}
 		});
 	}
-	incommingMessage(msg: RPCMessage) {
-		let direction = msg.direction == "request" ? " request >>" : " response <<";
-
-		console.debug(
-			this.sender.clientId + ":Incomming Message " + this.sender.clientId,
-			direction,
-			msg.source,
-			msg.functionName,
+	/**
+	 * Call a remote handler that returns an AsyncIterable (or any iterable) and
+	 * consume its items as they are produced.
+	 *
+	 * Usage:
+	 *   for await (const token of connection.sendStreamRequest('host', 'generate', [prompt])) { ... }
+	 */
+	sendStreamRequest<T = any>(
+		destinationId: string,
+		functionName: string,
+		data: Array<any> | any,
+		options?: StreamRequestOptions,
+	): AsyncIterableIterator<T> {
+		let requestId = generateUUID();
+		let signal = options?.signal;
+		let state = new ProxyEncodeState(generateUUID(), this.options);
+		let onAbort = () => {
+			reader.fail(new RPCMessageError(getAbortReasonMessage(signal), "ABORTED"));
+			this.sendCancel(destinationId, requestId, getAbortReasonMessage(signal));
+		};
+		let reader = new RPCStreamReader<T>(
+			options?.highWaterMark ?? 16,
+			options?.idleTimeoutMs ?? this.options.timeout ?? 30000,
+			(credits) => this.sendControl(destinationId, RPC_STREAM_PULL_FUNCTION, [requestId, credits]),
+			(reason) => this.sendCancel(destinationId, requestId, reason),
+			() => {
+				this.incomingStreams.delete(requestId);
+				this.releaseRequestCallbacks(state);
+				signal?.removeEventListener("abort", onAbort);
+			},
 		);
+		if (signal?.aborted) {
+			reader.fail(new RPCMessageError(getAbortReasonMessage(signal), "ABORTED"));
+			return reader;
+		}
+		try {
+			let sendData = Array.isArray(data) ? data : [data];
+			let msg = new RPCMessage(
+				this.sender.clientId,
+				destinationId,
+				"request",
+				functionName,
+				this.encodePayload(sendData, destinationId, state),
+			);
+			msg.id = requestId;
+			msg.stream = "open";
+			setTransfer(msg, state);
+			setRequestHeaders(msg, options);
+			msg.credits = reader.highWaterMark;
+			this.incomingStreams.set(requestId, new IncomingStream(reader, destinationId));
+			signal?.addEventListener("abort", onAbort, { once: true });
+			this.intercept("outboundRequest", msg, async (request) => {
+				await this.sender.sendMessage(request);
+			}).catch((e) => reader.fail(e));
+		} catch (e) {
+			reader.fail(e);
+		}
+		return reader;
+	}
+	/**
+	 * Drop the functions a request exported with the "request" lifetime once it is settled
+	 */
+	private releaseRequestCallbacks(state: ProxyEncodeState) {
+		state.callbackIds.forEach((id) => {
+			if (this.callbacks.get(id)?.lifetime == "request") {
+				this.callbacks.delete(id);
+			}
+		});
+	}
+	/**
+	 * Tell a peer that functions it sent us will not be called again. Usually
+	 * reached through releaseRemoteCallback(proxyFunction).
+	 */
+	releaseRemoteCallbacks(destinationId: string, ids: string[]) {
+		if (ids.length > 0) {
+			this.sendControl(destinationId, RPC_RELEASE_FUNCTION, ids);
+		}
+	}
+	/**
+	 * Remember where a received proxy function points, so it can be released
+	 * explicitly or, with releaseCallbacksOnGC, when it is garbage collected.
+	 */
+	trackRemoteCallback(func: Function, destinationId: string, id: string) {
+		trackRemoteCallback(func, this, destinationId, id);
+		let FinalizationRegistryCtor = (globalThis as any).FinalizationRegistry;
+		if (!this.options.releaseCallbacksOnGC || !FinalizationRegistryCtor) {
+			return;
+		}
+		if (!this.callbackFinalizer) {
+			this.callbackFinalizer = new FinalizationRegistryCtor((held: { destinationId: string; id: string }) =>
+				this.queueRelease(held.destinationId, held.id),
+			);
+		}
+		this.callbackFinalizer.register(func, { destinationId, id });
+	}
+	private queueRelease(destinationId: string, id: string) {
+		if (!this.sender?.onMessage) {
+			// connection closed
+			return;
+		}
+		let ids = this.pendingReleases.get(destinationId) ?? [];
+		ids.push(id);
+		this.pendingReleases.set(destinationId, ids);
+		if (!this.releaseTimer) {
+			this.releaseTimer = setTimeout(() => {
+				this.releaseTimer = null;
+				let pending = this.pendingReleases;
+				this.pendingReleases = new Map<string, string[]>();
+				pending.forEach((ids, destinationId) => this.releaseRemoteCallbacks(destinationId, ids));
+			}, 0);
+		}
+	}
+	private releaseLocalCallbacks(msg: RPCMessage) {
+		let ids = Array.isArray(msg.data) ? msg.data : [];
+		ids.forEach((id) => {
+			let cb = typeof id == "string" ? this.callbacks.get(id) : undefined;
+			// only functions we exported to that peer can be released, never named handlers or pending requests
+			if (cb?.kind == "exported" && isBoundTo(cb.destination, msg.source)) {
+				this.callbacks.delete(id);
+			}
+		});
+	}
+	/**
+	 * Count the live entries of the callbacks map, to catch functions that are
+	 * exported and never released.
+	 */
+	getCallbackStats(): CallbackStats {
+		let stats = new CallbackStats();
+		this.callbacks.forEach((cb) => {
+			stats.total++;
+			if (cb.kind == "response") {
+				stats.pendingResponses++;
+			} else if (cb.kind == "exported") {
+				stats.exported++;
+				stats.exportedByLifetime[cb.lifetime ?? "persistent"]++;
+				if (cb.createdAt !== undefined && (stats.oldestExportedAt === undefined || cb.createdAt < stats.oldestExportedAt)) {
+					stats.oldestExportedAt = cb.createdAt;
+				}
+			} else {
+				stats.handlers++;
+			}
+		});
+		return stats;
+	}
+	private sendControl(destinationId: string, functionName: string, data: any[]) {
+		try {
+			let msg = new RPCMessage(
+				this.sender.clientId,
+				destinationId,
+				"request",
+				functionName,
+				data,
+			);
+			Promise.resolve(this.sender.sendMessage(msg)).catch((e) => {
+				this.logger.warn("Failed to send control message", this.logFields(msg, { requestId: data[0], error: e }));
+			});
+		} catch (e) {
+			this.logger.warn("Failed to send control message", {
+				clientId: this.sender.clientId,
+				functionName,
+				destination: destinationId,
+				requestId: data[0],
+				error: e,
+			});
+		}
+	}
+	private sendCancel(destinationId: string, requestId: string, reason: string) {
+		this.sendControl(destinationId, RPC_CANCEL_FUNCTION, [requestId, reason]);
+	}
+	private addStreamCredits(msg: RPCMessage) {
+		let [requestId, credits] = Array.isArray(msg.data) ? msg.data : [];
+		let credit = this.outgoingStreams.get(msg.source + ":" + requestId);
+		if (credit && typeof credits == "number" && credits > 0) {
+			credit.add(credits);
+		}
+	}
+	/**
+	 * Send the items of a handler result as stream frames, one per credit the
+	 * consumer has granted, until the iterable ends, fails or is cancelled.
+	 */
+	private async pumpStream(msg: RPCMessage, result: any, signal: RPCAbortSignal) {
+		let key = msg.source + ":" + msg.id;
+		let credit = new RPCStreamCredit(msg.credits ?? 16);
+		let onAbort = () => credit.wake();
+		let seq = 0;
+		let sendFrame = (type: RPCStreamFrameType, data: any, state?: ProxyEncodeState) => {
+			let frame = RPCMessage.response(msg, data);
+			frame.stream = type;
+			frame.seq = seq++;
+			if (state) {
+				setTransfer(frame, state);
+			}
+			return this.sendResponseMessage(frame);
+		};
+		let sendItem = (item: any) => {
+			let state = new ProxyEncodeState(generateUUID(), this.options);
+			return sendFrame("next", this.encodePayload(item, msg.source, state), state);
+		};
+		this.outgoingStreams.set(key, credit);
+		signal.addEventListener("abort", onAbort);
+		let iterator = getStreamIterator(result);
+		let completed = false;
+		try {
+			if (!iterator) {
+				// a plain value is a stream of one item
+				await sendItem(result);
+			} else {
+				while (await credit.take(() => signal.aborted)) {
+					let item = await iterator.next();
+					if (item.done || signal.aborted) {
+						completed = item.done;
+						break;
+					}
+					await sendItem(item.value);
+				}
+			}
+			if (!signal.aborted) {
+				completed = true;
+				await sendFrame("end", undefined);
+			}
+		} catch (e) {
+			completed = true;
+			this.logger.error("Stream failed", this.logFields(msg, { error: e }));
+			if (!signal.aborted) {
+				await Promise.resolve(sendFrame("error", this.toMessageError(e))).catch(() => { });
+			}
+		} finally {
+			this.outgoingStreams.delete(key);
+			signal.removeEventListener("abort", onAbort);
+			if (!completed && iterator?.return) {
+				// let generators run their finally blocks when the consumer goes away
+				Promise.resolve(iterator.return()).catch(() => { });
+			}
+		}
+	}
+	private failPendingResponse(msg: RPCMessage, error: RPCMessageError) {
+		let stream = this.incomingStreams.get(msg.id);
+		if (stream) {
+			stream.reader.fail(error);
+			return;
+		}
+		let cb = this.callbacks.get(msg.id);
+		this.callbacks.delete(msg.id);
+		cb?.func.call(cb.func, error);
+	}
+	/**
+	 * Whether a response belongs to a request or stream this side is waiting for
+	 * and comes from the peer the request was sent to
+	 */
+	private isExpectedResponse(msg: RPCMessage): boolean {
+		let stream = this.incomingStreams.get(msg.id);
+		let cb = this.callbacks.get(msg.id);
+		let expected = stream ? stream.destinationId : cb?.kind == "response" ? cb.destination : null;
+		if (expected === null) {
+			if (this.settledRequests.has(msg.id)) {
+				this.logger.debug("Dropping late response", this.logFields(msg));
+			} else if (isControlFunction(msg.functionName)) {
+				// e.g. "Unknown function" for every presence heartbeat
+				this.logger.debug("Dropping response to a control message", this.logFields(msg));
+			} else if (!msg.stream) {
+				// stream frames that were already in flight when the consumer closed the stream are expected
+				this.logger.warn("No pending request for response", this.logFields(msg));
+			}
+			return false;
+		}
+		if (!isBoundTo(expected, msg.source)) {
+			this.logger.warn("Ignoring response from unexpected peer", this.logFields(msg, { expected }));
+			return false;
+		}
+		return true;
+	}
+	/**
+	 * Reject calls that must not reach `cb`: pending request resolvers are not
+	 * handlers, and exported functions only answer the peer they were sent to.
+	 */
+	private checkCallbackAccess(msg: RPCMessage, cb: CallbackHandlerMethods): RPCMessageError | null {
+		if (cb.kind == "response") {
+			return new RPCMessageError("Unknown function " + msg.functionName);
+		}
+		if (cb.kind == "exported" && !isBoundTo(cb.destination, msg.source)) {
+			this.logger.warn("Call to a function exported to another peer", this.logFields(msg, { exportedTo: cb.destination }));
+			return new RPCMessageError("Function " + msg.functionName + " was not sent to " + msg.source, "PERMISSION_DENIED");
+		}
+		return null;
+	}
+	private receiveStreamFrame(reader: RPCStreamReader, msg: RPCMessage) {
+		if (msg.stream) {
+			reader.push(msg.stream, msg.seq, msg.data);
+		} else if (msg.data?._type == "MessageError") {
+			reader.fail(msg.data);
+		} else {
+			// a peer without streaming support answered with a single response
+			reader.push("next", 0, msg.data);
+			reader.push("end", 1, undefined);
+		}
+	}
+	private cancelIncomingRequest(msg: RPCMessage) {
+		let [requestId, reason] = Array.isArray(msg.data) ? msg.data : [];
+		let key = msg.source + ":" + requestId;
+		let controller = this.inflightRequests.get(key);
+		if (controller) {
+			this.inflightRequests.delete(key);
+			controller.abort(reason ?? "Request cancelled by " + msg.source);
+		}
+	}
+	private handleRequest(msg: RPCMessage, log: (output: any, err: any) => void) {
+		let key = msg.source + ":" + msg.id;
+		let controller = createAbortController();
+		this.inflightRequests.set(key, controller);
+		let context = new RPCCallContext(msg, controller.signal);
+		let finish = () => {
+			if (this.inflightRequests.get(key) === controller) {
+				this.inflightRequests.delete(key);
+			}
+			// nobody is waiting for the result of a cancelled request
+			return !controller.signal.aborted;
+		};
+
+		this.intercept("inboundRequest", msg, (request) => this.invokeHandler(request, context), context)
+			.then((response) => {
+				log(response, null);
+				if (msg.notification) {
+					finish();
+					if (response?._type == "MessageError") {
+						this.logger.warn("Notification failed", this.logFields(msg, { error: response }));
+					}
+					return;
+				}
+				if (msg.stream == "open" && !controller.signal.aborted && response?._type != "MessageError") {
+					return this.pumpStream(msg, response, controller.signal).finally(finish);
+				}
+				if (finish()) {
+					this.sendResponse(msg, response);
+				}
+			})
+			.catch((e) => {
+				log(null, e);
+				if (finish() && !msg.notification) {
+					this.sendResponseMessage(RPCMessage.response(msg, this.toMessageError(e)));
+				}
+			});
+	}
+	/**
+	 * Call the callback or onMessage handler for a request, at the end of the inbound interceptors
+	 */
+	private async invokeHandler(msg: RPCMessage, context: RPCCallContext): Promise<any> {
+		let cb = this.callbacks.get(msg.functionName);
+		let denied = cb ? this.checkCallbackAccess(msg, cb) : null;
+		// exported functions are already bound to the peer they were sent to
+		if (!denied && cb?.kind != "exported") {
+			denied = await this.checkAuthorization(msg, cb, context);
+		}
+		if (denied) {
+			return denied;
+		}
+		if (cb) {
+			if (cb.lifetime == "once") {
+				this.callbacks.delete(msg.functionName);
+			}
+			let args = Array.isArray(msg.data) ? msg.data : [msg.data];
+			return cb.func.apply(cb.source, cb.withContext ? [...args, context] : args);
+		}
+		return this.onMessage(msg, context);
+	}
+	/**
+	 * Run the authorizer for a request to a named handler or onMessage
+	 */
+	private async checkAuthorization(
+		msg: RPCMessage,
+		cb: CallbackHandlerMethods | undefined,
+		context: RPCCallContext,
+	): Promise<RPCMessageError | null> {
+		context.identity = await this.authorizer.getIdentity(msg);
+		let denied = await this.authorizer.authorize(msg, cb?.access, context.identity);
+		if (!denied) {
+			return null;
+		}
+		this.logger.warn("Call denied", this.logFields(msg, { origin: msg.origin, reason: denied.reason }));
+		return new RPCMessageError("Permission denied: " + msg.source + " may not call " + msg.functionName, "PERMISSION_DENIED");
+	}
+	/**
+	 * Hand a response to its pending request or stream, at the end of the inbound interceptors
+	 */
+	private async deliverResponse(msg: RPCMessage) {
+		let stream = this.incomingStreams.get(msg.id);
+		if (stream) {
+			this.receiveStreamFrame(stream.reader, msg);
+			return;
+		}
+		// pending requests remove themselves once they have every answer they wait for
+		let cb = this.callbacks.get(msg.id);
+		cb?.func.call(cb.func, msg.data, msg.source);
+	}
+	incommingMessage(msg: RPCMessage) {
+		this.logger.debug("Incoming message", this.logFields(msg, { data: msg.data }));
+		if (!this.sender.reportsOrigin) {
+			delete msg.origin;
+		}
 		if (msg.destination == this.sender.clientId || msg.destination == "*") {
 			let log = (output: any, err: any) => {
 				if (err) {
-					console.error("## Request " + msg.functionName + " error", err, "##");
+					this.logger.error("Request failed", this.logFields(msg, { error: err }));
 				} else {
-					console.debug(
-						"## Request " + msg.functionName + " output",
-						JSON.stringify(output, null, 2),
-						"##",
-					);
+					this.logger.debug("Request handled", this.logFields(msg, { data: output }));
 				}
 			};
 
-			msg.data = getReceivedProxyObject(
-				this,
-				msg.source,
-				this.callbacks,
-				msg.data,
-			);
+			if (msg.direction != "request" && !this.isExpectedResponse(msg)) {
+				return;
+			}
+			try {
+				msg.data = this.decodePayload(msg);
+			} catch (e) {
+				this.logger.warn("Rejected payload", this.logFields(msg, { error: e }));
+				if (msg.notification) {
+					return;
+				}
+				if (msg.direction == "request") {
+					this.sendResponseMessage(RPCMessage.response(msg, this.toMessageError(e)));
+				} else {
+					this.failPendingResponse(msg, this.toMessageError(e));
+				}
+				return;
+			}
 			if (msg.direction == "request") {
-				let cb = this.callbacks.get(msg.functionName);
-				if (cb) {
-						;
-					//this.callbacks.delete(msg.functionName);
-					let promise = cb.func.apply(cb.source, msg.data);
-					if (promise && promise.then) {
-						promise
-							.then((response) => {
-								log(response, null);
-								this.sender.sendMessage(
-									RPCMessage.response(
-										msg,
-										getRequestProxyObject(
-											generateUUID(),
-											this.sender,
-											this.callbacks,
-											response,
-											0,
-											this.options.maxDepth,
-										),
-									),
-								);
-							})
-							.catch((e) => {
-								log(null, e);
-								this.sender.sendMessage(
-									RPCMessage.response(msg, new RPCMessageError(e)),
-								);
-							});
-					} else {
-						log(promise, null);
-						this.sender.sendMessage(
-							RPCMessage.response(
-								msg,
-								getRequestProxyObject(
-									generateUUID(),
-									this.sender,
-									this.callbacks,
-									promise,
-									0,
-									this.options.maxDepth,
-								),
-							),
-						);
-					}
+				if (msg.functionName == RPC_CANCEL_FUNCTION) {
+					this.cancelIncomingRequest(msg);
 					return;
 				}
-				this.onMessage(msg)
-					.then((response) => {
-						this.sender.sendMessage(
-							RPCMessage.response(
-								msg,
-								getRequestProxyObject(
-									generateUUID(),
-									this.sender,
-									this.callbacks,
-									response,
-									0,
-									this.options.maxDepth,
-								),
-							),
-						);
-					})
-					.catch((e) => {
-						this.sender.sendMessage(
-							RPCMessage.response(msg, new RPCMessageError(e)),
-						);
-					});
-			} else {
-				// this.log("incomming response",msg.functionName,msg.data)
-				let cb = this.callbacks.get(msg.id);
-			this.callbacks.delete(msg.id);
-				if (cb) {
-					cb.func.call(cb.func, msg.data);
-
+				if (msg.functionName == RPC_STREAM_PULL_FUNCTION) {
+					this.addStreamCredits(msg);
 					return;
-				} else {
-					console.warn(
-						this.sender.clientId + "no callback for response",
-						msg.functionName,
-						msg.data,
-					);
 				}
+				if (msg.functionName == RPC_RELEASE_FUNCTION) {
+					this.releaseLocalCallbacks(msg);
+					return;
+				}
+				if (msg.functionName == RPC_PRESENCE_FUNCTION) {
+					this.presence?.receive(msg);
+					return;
+				}
+				this.handleRequest(msg, log);
+			} else {
+				// this.log("incomming response",msg.functionName,msg.data)
+				this.intercept("inboundResponse", msg, (response) => this.deliverResponse(response)).catch((e) =>
+					this.failPendingResponse(msg, this.toMessageError(e)),
+				);
 			}
 		} else {
-			console.warn(
-				this.sender.clientId +
-					":Incomming Message IGNORE " +
-					this.sender.clientId,
-				direction,
-				msg.source,
-				msg.functionName,
-			);
+			this.logger.debug("Ignoring message for another client", this.logFields(msg));
 		}
 	}
 }
@@ -554,3 +1715,20 @@ export * from "./rpcProvider";
 export * from "./abort";
 export * from "./PostMessageBridge";
 export * from "./PostMessageRPCClient";
+export * from "./inMemoryProvider";
+export * from "./service";
+export * from "./codecs";
+export * from "./cancellation";
+export * from "./stream";
+export * from "./errors";
+export * from "./callbacks";
+export * from "./interceptors";
+export * from "./logger";
+export * from "./tracing";
+export * from "./compression";
+export * from "./transfer";
+export * from "./originPolicy";
+export * from "./authorization";
+export * from "./envelopeSecurity";
+export * from "./multiRequest";
+export * from "./presence";
@@ -0,0 +1,151 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+	ConectionOptions,
+	createAbortController,
+	InMemoryRPCClient,
+	InMemoryRPCHub,
+	RPCCallContext,
+	RPCConnection,
+	RPCInterceptor,
+	RPCMessage,
+	SilentRPCLogger,
+} from "./index";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+let connections: RPCConnection[] = [];
+
+async function setup(hostOptions: Partial<ConectionOptions> = {}) {
+	let hub = new InMemoryRPCHub();
+	let connect = (clientId: string, destinationId: string, options: Partial<ConectionOptions>, handler?: (msg: RPCMessage) => Promise<any>) => {
+		let client = new InMemoryRPCClient(hub, { clientId, defaultDestinationId: destinationId, baseChannel: "test", getToken: null });
+		let connection = new RPCConnection(client, { logger: new SilentRPCLogger(), ...options }, handler);
+		connections.push(connection);
+		return connection;
+	};
+	let handled: RPCMessage[] = [];
+	let host = connect("host", "caller", hostOptions, async (msg) => {
+		handled.push(msg);
+		if (msg.functionName == "slow") {
+			await sleep(100);
+		}
+		return msg.functionName + ":" + msg.data.join(",");
+	});
+	let caller = connect("caller", "host", {});
+	await host.init();
+	await caller.init();
+	return { host, caller, handled };
+}
+
+/** Logs each stage it sees, by name */
+function tracing(name: string, log: string[]): RPCInterceptor {
+	return {
+		outboundRequest: async (msg, next) => {
+			log.push(name + " > " + msg.functionName);
+			let result = await next();
+			log.push(name + " < " + result);
+			return result;
+		},
+		inboundRequest: async (msg, next) => {
+			log.push(name + " in " + msg.functionName);
+			return next();
+		},
+		outboundResponse: async (msg, next) => {
+			log.push(name + " respond " + msg.functionName);
+			return next();
+		},
+		inboundResponse: async (msg, next) => {
+			log.push(name + " response " + msg.functionName);
+			return next();
+		},
+	};
+}
+
+afterEach(async () => {
+	await Promise.all(connections.map((connection) => connection.close()));
+	connections = [];
+});
+
+describe("interceptors", () => {
+	it("run in the order they were added, the first one outermost", async () => {
+		let { host, caller } = await setup();
+		let log: string[] = [];
+		caller.use(tracing("a", log)).use(tracing("b", log));
+		host.use(tracing("h", log));
+		expect(await caller.sendRequest("host", "run", [1])).toBe("run:1");
+		expect(log).toEqual(["a > run", "b > run", "h in run", "h respond run", "a response run", "b response run", "b < run:1", "a < run:1"]);
+	});
+
+	it("can change messages on their way", async () => {
+		let { host, caller, handled } = await setup();
+		caller.use({
+			outboundRequest: (msg, next) => {
+				msg.headers = { ...msg.headers, tenant: "acme" };
+				return next();
+			},
+		});
+		let contexts: RPCCallContext[] = [];
+		host.use({
+			inboundRequest: (msg, next, context) => {
+				contexts.push(context);
+				return next({ ...msg, data: msg.data.map((n: number) => n * 10) } as RPCMessage);
+			},
+			outboundResponse: (msg, next) => {
+				msg.data = msg.data.toUpperCase();
+				return next();
+			},
+		});
+		expect(await caller.sendRequest("host", "run", [1, 2])).toBe("RUN:10,20");
+		expect(handled[0].headers).toEqual({ tenant: "acme" });
+		expect(contexts[0].message.headers).toEqual({ tenant: "acme" });
+	});
+
+	it("can answer without sending the request or calling the handler", async () => {
+		let { host, caller, handled } = await setup();
+		caller.use({
+			outboundRequest: (msg, next) => (msg.functionName == "cached" ? "from cache" : next()),
+		});
+		host.use({
+			inboundRequest: (msg, next) => {
+				if (msg.functionName == "forbidden") {
+					throw new Error("not for you");
+				}
+				return next();
+			},
+		});
+		expect(await caller.sendRequest("host", "cached", [])).toBe("from cache");
+		await expect(caller.sendRequest("host", "forbidden", [])).rejects.toThrow("not for you");
+		expect(handled).toEqual([]);
+	});
+
+	it("can drop responses and fail requests on the way back", async () => {
+		let { host, caller } = await setup();
+		host.use({
+			outboundResponse: (msg, next) => (msg.functionName == "dropped" ? undefined : next()),
+		});
+		caller.use({
+			inboundResponse: (msg, next) => {
+				if (msg.functionName == "rejected") {
+					throw new Error("bad response");
+				}
+				return next();
+			},
+		});
+		await expect(caller.sendRequest("host", "dropped", [], 50)).rejects.toMatchObject({ code: "TIMEOUT" });
+		await expect(caller.sendRequest("host", "rejected", [])).rejects.toThrow("bad response");
+		expect(await caller.sendRequest("host", "run", [])).toBe("run:");
+	});
+
+	it("come from ConectionOptions too, and never see control messages", async () => {
+		let log: string[] = [];
+		let { caller } = await setup({ interceptors: [tracing("h", log)] });
+		caller.use(tracing("c", log));
+		let controller = createAbortController();
+		let request = caller.sendRequest("host", "slow", [], undefined, { signal: controller.signal });
+		await sleep(10);
+		controller.abort("stop");
+		await expect(request).rejects.toMatchObject({ code: "ABORTED" });
+		await sleep(10);
+		expect(log).toEqual(["c > slow", "h in slow"]);
+	});
+});
@@ -0,0 +1,69 @@
+import type { RPCCallContext, RPCMessage } from "./index";
+
+/**
+ * Continue with the next interceptor, or with the connection itself after the
+ * last one. Pass a message to replace the current one.
+ */
+export type RPCInterceptorNext = (msg?: RPCMessage) => Promise<any>;
+
+/**
+ * Middleware around the messages of an RPCConnection. Every hook is optional,
+ * may be async, may change the message before calling `next`, and may skip
+ * `next` to short-circuit. Interceptors run in the order they were added, the
+ * first one being the outermost.
+ *
+ * - outboundRequest: around sending a request and waiting for its response.
+ *   `next` resolves with the result; return a value or throw to answer locally.
+ *   For stream requests, notifications and the messages of multi-peer
+ *   requests `next` resolves once the request is sent.
+ * - inboundRequest: around the handler. `next` resolves with the handler's
+ *   result; return a value or throw to answer the caller without it.
+ * - outboundResponse: around sending a response or stream frame. Skipping
+ *   `next` drops it.
+ * - inboundResponse: before a response or stream frame reaches the pending
+ *   request. Skipping `next` drops it, throwing fails the request.
+ *
+ * Control messages (cancel, stream credits, releases, presence) are not intercepted.
+ *
+ * Usage:
+ *   connection.use({
+ *     outboundRequest: async (msg, next) => {
+ *       let started = Date.now();
+ *       try { return await next(); } finally { metrics.observe(msg.functionName, Date.now() - started); }
+ *     },
+ *   });
+ */
+export interface RPCInterceptor {
+	outboundRequest?: (msg: RPCMessage, next: RPCInterceptorNext) => any;
+	inboundRequest?: (msg: RPCMessage, next: RPCInterceptorNext, context: RPCCallContext) => any;
+	outboundResponse?: (msg: RPCMessage, next: RPCInterceptorNext) => any;
+	inboundResponse?: (msg: RPCMessage, next: RPCInterceptorNext) => any;
+}
+
+export type RPCInterceptorStage = keyof RPCInterceptor;
+
+/**
+ * Run `msg` through the `stage` hooks of `interceptors` and then through `core`.
+ * Without hooks for the stage, `core` is called synchronously.
+ */
+export function runInterceptors(
+	interceptors: RPCInterceptor[],
+	stage: RPCInterceptorStage,
+	msg: RPCMessage,
+	core: (msg: RPCMessage) => Promise<any>,
+	context?: RPCCallContext,
+): Promise<any> {
+	let dispatch = (index: number, current: RPCMessage): Promise<any> => {
+		for (let i = index; i < (interceptors?.length ?? 0); i++) {
+			let interceptor = interceptors[i];
+			let hook = interceptor[stage] as (msg: RPCMessage, next: RPCInterceptorNext, context?: RPCCallContext) => any;
+			if (hook) {
+				return new Promise<any>((resolve) => {
+					resolve(hook.call(interceptor, current, (next?: RPCMessage) => dispatch(i + 1, next ?? current), context));
+				});
+			}
+		}
+		return core(current);
+	};
+	return dispatch(0, msg);
+}
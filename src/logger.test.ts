@@ -0,0 +1,35 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { ConsoleRPCLogger, getDefaultLogger, setDefaultLogger, SilentRPCLogger } from "./index";
+
+const nodeEnv = process.env.NODE_ENV;
+
+afterEach(() => {
+	process.env.NODE_ENV = nodeEnv;
+	setDefaultLogger(null);
+});
+
+describe("getDefaultLogger", () => {
+	it("is silent with NODE_ENV production", () => {
+		process.env.NODE_ENV = "production";
+		setDefaultLogger(null);
+		expect(getDefaultLogger()).toBeInstanceOf(SilentRPCLogger);
+	});
+
+	it("logs to the console otherwise", () => {
+		process.env.NODE_ENV = "development";
+		setDefaultLogger(null);
+		expect(getDefaultLogger()).toBeInstanceOf(ConsoleRPCLogger);
+	});
+
+	it("works without a process, as in an unbundled browser", () => {
+		let realProcess = globalThis.process;
+		try {
+			// @ts-ignore
+			delete globalThis.process;
+			setDefaultLogger(null);
+			expect(getDefaultLogger()).toBeInstanceOf(ConsoleRPCLogger);
+		} finally {
+			globalThis.process = realProcess;
+		}
+	});
+});
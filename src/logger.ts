@@ -0,0 +1,163 @@
+export type RPCLogLevel = "debug" | "info" | "warn" | "error" | "silent";
+
+const LOG_LEVELS: RPCLogLevel[] = ["debug", "info", "warn", "error", "silent"];
+
+/**
+ * Structured fields attached to a log entry. Message payloads go in `data`,
+ * which is where redaction applies.
+ */
+export interface RPCLogFields {
+	clientId?: string;
+	messageId?: string;
+	functionName?: string;
+	direction?: "request" | "response";
+	source?: string;
+	destination?: string;
+	data?: any;
+	error?: any;
+	[key: string]: any;
+}
+
+/**
+ * Where the library writes its diagnostics. Implement it to forward entries to
+ * your own logging, or use ConsoleRPCLogger.
+ */
+export interface RPCLogger {
+	debug(message: string, fields?: RPCLogFields): void;
+	info(message: string, fields?: RPCLogFields): void;
+	warn(message: string, fields?: RPCLogFields): void;
+	error(message: string, fields?: RPCLogFields): void;
+}
+
+export class RedactionOptions {
+	/**
+	 * Dot paths inside `data` to replace with "[REDACTED]", e.g. "0.password" for
+	 * the password field of the first argument. `*` matches any key or index.
+	 */
+	redactPaths?: string[];
+	/** Last chance to rewrite the fields of every entry before it is written */
+	redact?: (fields: RPCLogFields) => RPCLogFields;
+}
+
+export class ConsoleRPCLoggerOptions extends RedactionOptions {
+	/** Lowest level written (default: "info") */
+	level?: RPCLogLevel = "info";
+	prefix?: string = "[botdojo-rpc]";
+}
+
+const REDACTED = "[REDACTED]";
+
+function redactPath(value: any, path: string[], index: number): any {
+	if (value === null || typeof value != "object") {
+		return value;
+	}
+	let key = path[index];
+	let copy: any = Array.isArray(value) ? [...value] : { ...value };
+	Object.keys(copy).forEach((k) => {
+		if (key != "*" && k != key) {
+			return;
+		}
+		copy[k] = index == path.length - 1 ? REDACTED : redactPath(copy[k], path, index + 1);
+	});
+	return copy;
+}
+
+/**
+ * Apply redaction to log fields without touching the originals. Useful when
+ * implementing an RPCLogger of your own.
+ */
+export function redactLogFields(fields: RPCLogFields, options: RedactionOptions): RPCLogFields {
+	if (!fields) {
+		return fields;
+	}
+	let result = fields;
+	if (options?.redactPaths?.length && fields.data !== undefined) {
+		let data = fields.data;
+		options.redactPaths.forEach((path) => {
+			data = redactPath(data, path.split("."), 0);
+		});
+		result = { ...fields, data };
+	}
+	return options?.redact ? options.redact(result) : result;
+}
+
+/**
+ * Writes entries at or above `level` to the console, redacted first.
+ *
+ * Usage:
+ *   setDefaultLogger(new ConsoleRPCLogger({ level: 'debug', redactPaths: ['*.token', '0.password'] }));
+ */
+export class ConsoleRPCLogger implements RPCLogger {
+	options: ConsoleRPCLoggerOptions;
+	constructor(options?: ConsoleRPCLoggerOptions) {
+		this.options = { ...new ConsoleRPCLoggerOptions(), ...options };
+	}
+	isEnabled(level: RPCLogLevel): boolean {
+		return level != "silent" && LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(this.options.level);
+	}
+	private write(level: "debug" | "info" | "warn" | "error", message: string, fields?: RPCLogFields) {
+		if (!this.isEnabled(level)) {
+			return;
+		}
+		let line = this.options.prefix ? this.options.prefix + " " + message : message;
+		if (fields) {
+			console[level](line, redactLogFields(fields, this.options));
+		} else {
+			console[level](line);
+		}
+	}
+	debug(message: string, fields?: RPCLogFields) {
+		this.write("debug", message, fields);
+	}
+	info(message: string, fields?: RPCLogFields) {
+		this.write("info", message, fields);
+	}
+	warn(message: string, fields?: RPCLogFields) {
+		this.write("warn", message, fields);
+	}
+	error(message: string, fields?: RPCLogFields) {
+		this.write("error", message, fields);
+	}
+}
+
+export class SilentRPCLogger implements RPCLogger {
+	debug() { }
+	info() { }
+	warn() { }
+	error() { }
+}
+
+/** Node's process, or the one bundlers stand in for by replacing process.env.NODE_ENV */
+declare const process: { env: { [name: string]: string | undefined } };
+
+/**
+ * Written out as `process.env.NODE_ENV` so bundlers (webpack, Vite, esbuild)
+ * substitute it. Guarded with try rather than `typeof process`, which they
+ * leave alone and which would stay "undefined" in the browser.
+ */
+function isProduction(): boolean {
+	try {
+		return process.env.NODE_ENV == "production";
+	} catch (e) {
+		return false; // no process and no bundler
+	}
+}
+
+let defaultLogger: RPCLogger | null = null;
+
+/**
+ * Logger used wherever none was configured: silent when NODE_ENV is
+ * "production", in Node or as substituted by the bundler, warnings and errors
+ * on the console otherwise.
+ */
+export function getDefaultLogger(): RPCLogger {
+	if (!defaultLogger) {
+		defaultLogger = isProduction() ? new SilentRPCLogger() : new ConsoleRPCLogger({ level: "warn" });
+	}
+	return defaultLogger;
+}
+
+/** Replace the default logger. Pass null to go back to the built-in default. */
+export function setDefaultLogger(logger: RPCLogger | null) {
+	defaultLogger = logger;
+}
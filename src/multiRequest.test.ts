@@ -0,0 +1,98 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+	createAbortController,
+	InMemoryRPCClient,
+	InMemoryRPCHub,
+	RPCCallContext,
+	RPCConnection,
+	RPCMessage,
+	SilentRPCLogger,
+} from "./index";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+let connections: RPCConnection[] = [];
+
+function connect(hub: InMemoryRPCHub, clientId: string, handler?: (msg: RPCMessage, context?: RPCCallContext) => Promise<any>) {
+	let client = new InMemoryRPCClient(hub, { clientId, defaultDestinationId: "caller", baseChannel: "test", getToken: null });
+	let connection = new RPCConnection(client, { logger: new SilentRPCLogger() }, handler);
+	connections.push(connection);
+	return connection;
+}
+
+async function setup(handler: (peerId: string, msg: RPCMessage, context?: RPCCallContext) => Promise<any>) {
+	let hub = new InMemoryRPCHub();
+	let caller = connect(hub, "caller");
+	let peers = ["w1", "w2", "w3"].map((peerId) => connect(hub, peerId, (msg, context) => handler(peerId, msg, context)));
+	await caller.init();
+	for (let peer of peers) {
+		await peer.init();
+	}
+	return { hub, caller, peers };
+}
+
+afterEach(() => {
+	connections.forEach((connection) => connection.close());
+	connections = [];
+});
+
+describe("sendMultiRequest", () => {
+	it("gathers the answers of every peer listening on *", async () => {
+		let { caller } = await setup(async (peerId, msg) => peerId + ":" + msg.data[0]);
+		let result = await caller.sendMultiRequest("*", "ping", ["x"], { windowMs: 100 });
+		expect(result.timedOut).toBe(true);
+		expect(Array.from(result.values.entries()).sort()).toEqual([
+			["w1", "w1:x"],
+			["w2", "w2:x"],
+			["w3", "w3:x"],
+		]);
+	});
+
+	it("stops at expectedCount and cancels the handlers still running", async () => {
+		let cancelled: string[] = [];
+		let { caller } = await setup(async (peerId, msg, context) => {
+			if (peerId == "w1") {
+				return "fast";
+			}
+			await new Promise((resolve) => context.signal.addEventListener("abort", () => resolve(undefined)));
+			cancelled.push(peerId);
+			return "late";
+		});
+		let result = await caller.sendMultiRequest("*", "ping", [], { windowMs: 1000, expectedCount: 1 });
+		await sleep(20);
+		expect(result.timedOut).toBe(false);
+		expect(result.results.map((r) => r.peerId)).toEqual(["w1"]);
+		expect(cancelled.sort()).toEqual(["w2", "w3"]);
+	});
+
+	it("reports errors per peer and lists the peers that didn't answer", async () => {
+		let { caller } = await setup(async (peerId) => {
+			if (peerId == "w2") {
+				throw new Error("w2 broke");
+			}
+			return peerId;
+		});
+		let result = await caller.sendMultiRequest(["w1", "w2", "nobody"], "run", [], { windowMs: 50 });
+		expect(Array.from(result.values.entries())).toEqual([["w1", "w1"]]);
+		expect(result.errors.get("w2").message).toBe("w2 broke");
+		expect(result.missing).toEqual(["nobody"]);
+		expect(result.timedOut).toBe(true);
+	});
+
+	it("rejects with ABORTED when the signal aborts while the requests are still being sent", async () => {
+		let { caller } = await setup(async (peerId) => peerId);
+		caller.use({
+			outboundRequest: async (msg, next) => {
+				await sleep(30);
+				return next();
+			},
+		});
+		let controller = createAbortController();
+		setTimeout(() => controller.abort("stop"), 5);
+		await expect(caller.sendMultiRequest("*", "ping", [], { windowMs: 200, signal: controller.signal })).rejects.toMatchObject({
+			code: "ABORTED",
+		});
+		await sleep(50);
+		expect(caller.getCallbackStats().pendingResponses).toBe(0);
+	});
+});
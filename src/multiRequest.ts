@@ -0,0 +1,47 @@
+import { RPCAbortSignal } from "./cancellation";
+import { RPCTraceContext } from "./tracing";
+
+export class MultiRequestOptions {
+	/** How long answers are collected (default: connection timeout) */
+	windowMs?: number;
+	/**
+	 * Stop collecting once this many peers answered (default: every listed
+	 * peer, and for "*" only the window ends the collection)
+	 */
+	expectedCount?: number;
+	/** Aborting rejects the request and cancels the remote handlers */
+	signal?: RPCAbortSignal;
+	/** Extra headers for the request messages */
+	headers?: { [key: string]: string };
+	/** Parent span for the request */
+	trace?: RPCTraceContext;
+}
+
+/**
+ * Answer of one peer to a multi-peer request: its result, or the error it
+ * failed with
+ */
+export class RPCPeerResult<T = any> {
+	constructor(public peerId: string, public ok: boolean, public value?: T, public error?: any) { }
+}
+
+export class RPCMultiResult<T = any> {
+	/** One entry per peer that answered, in the order the answers arrived */
+	results: RPCPeerResult<T>[] = [];
+	/** Listed peers that didn't answer in time, always empty for "*" */
+	missing: string[] = [];
+	/** The window closed before expectedCount peers answered */
+	timedOut: boolean = false;
+	/** Results of the peers that succeeded, by peer id */
+	get values(): Map<string, T> {
+		let values = new Map<string, T>();
+		this.results.forEach((result) => result.ok && values.set(result.peerId, result.value));
+		return values;
+	}
+	/** Errors of the peers that failed, by peer id */
+	get errors(): Map<string, any> {
+		let errors = new Map<string, any>();
+		this.results.forEach((result) => !result.ok && errors.set(result.peerId, result.error));
+		return errors;
+	}
+}
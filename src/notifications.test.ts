@@ -0,0 +1,127 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { InMemoryRPCClient, InMemoryRPCHub, RPCConnection, RPCLogger, RPCMessage, SilentRPCLogger } from "./index";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Keeps warnings and errors, the rest goes nowhere */
+class RecordingLogger implements RPCLogger {
+	entries: string[] = [];
+	debug() { }
+	info() { }
+	warn(message: string) {
+		this.entries.push(message);
+	}
+	error(message: string) {
+		this.entries.push(message);
+	}
+}
+
+let clients: InMemoryRPCClient[] = [];
+let connections: RPCConnection[] = [];
+
+function createClient(hub: InMemoryRPCHub, clientId: string, destinationId: string) {
+	let client = new InMemoryRPCClient(hub, { clientId, defaultDestinationId: destinationId, baseChannel: "test", getToken: null });
+	clients.push(client);
+	return client;
+}
+
+async function setup(handler: (msg: RPCMessage) => Promise<any>) {
+	let hub = new InMemoryRPCHub();
+	let logger = new RecordingLogger();
+	let senderClient = createClient(hub, "sender", "receiver");
+	let sender = new RPCConnection(senderClient, { logger });
+	let receiver = new RPCConnection(createClient(hub, "receiver", "sender"), { logger }, handler);
+	connections.push(sender, receiver);
+	await sender.init();
+	await receiver.init();
+	return { hub, sender, receiver, logger };
+}
+
+/** A peer that predates notifications and answers every request */
+async function legacyPeer(hub: InMemoryRPCHub) {
+	let client = createClient(hub, "receiver", "sender");
+	await client.init();
+	client.onMessage = async (msg) => {
+		if (msg.direction == "request") {
+			await sleep(5);
+			await client.sendMessage(RPCMessage.response(msg, "answered anyway"));
+		}
+	};
+}
+
+afterEach(() => {
+	connections.forEach((connection) => connection.close());
+	clients.forEach((client) => client.close());
+	connections = [];
+	clients = [];
+	vi.restoreAllMocks();
+});
+
+describe("sendNotification", () => {
+	it("runs the handler and sends nothing back", async () => {
+		let received: any[] = [];
+		let { hub, sender, logger } = await setup(async (msg) => {
+			received.push(msg.data);
+			return "ignored";
+		});
+		let routed: RPCMessage[] = [];
+		let route = hub.route.bind(hub);
+		hub.route = (channel, msg, from) => {
+			routed.push(msg);
+			return route(channel, msg, from);
+		};
+		for (let i = 0; i < 3; i++) {
+			await sender.sendNotification("receiver", "onStep", [i]);
+		}
+		await sleep(20);
+		expect(received).toEqual([[0], [1], [2]]);
+		expect(routed.map((msg) => msg.direction)).toEqual(["request", "request", "request"]);
+		expect(routed.every((msg) => msg.notification)).toBe(true);
+		expect(sender.getCallbackStats().pendingResponses).toBe(0);
+		expect((sender as any).settledRequests.size).toBe(0);
+		expect(logger.entries).toEqual([]);
+	});
+
+	it("only logs handler errors on the receiving side", async () => {
+		let { sender, logger } = await setup(async () => {
+			throw new Error("handler broke");
+		});
+		await sender.sendNotification("receiver", "onStep", []);
+		await sleep(20);
+		expect(logger.entries).toEqual(["Request failed"]);
+	});
+
+	it("drops the answers of peers that predate notifications quietly", async () => {
+		let hub = new InMemoryRPCHub();
+		let logger = new RecordingLogger();
+		let senderClient = createClient(hub, "sender", "receiver");
+		senderClient.supportsNotifications = () => false;
+		let sender = new RPCConnection(senderClient, { logger });
+		connections.push(sender);
+		await sender.init();
+		await legacyPeer(hub);
+		await sender.sendNotification("receiver", "onStep", [1]);
+		expect((sender as any).settledRequests.size).toBe(1);
+		await sleep(20);
+		expect(logger.entries).toEqual([]);
+	});
+
+	it("forgets the ids of old notifications in the order they were sent", async () => {
+		let hub = new InMemoryRPCHub();
+		let senderClient = createClient(hub, "sender", "receiver");
+		senderClient.supportsNotifications = () => false;
+		let sender = new RPCConnection(senderClient, { logger: new SilentRPCLogger(), timeout: 1000 });
+		connections.push(sender);
+		await sender.init();
+		await legacyPeer(hub);
+		let now = Date.now();
+		let clock = vi.spyOn(Date, "now");
+		for (let i = 0; i < 5; i++) {
+			clock.mockReturnValue(now + i * 400);
+			await sender.sendNotification("receiver", "onStep", [i]);
+		}
+		// sent at 0, 400, 800, 1200 and 1600: the first one expired at 1000, the second at 1400
+		let settled = (sender as any).settledRequests as Map<string, number>;
+		expect(Array.from(settled.values())).toEqual([now + 1800, now + 2200, now + 2600]);
+	});
+});
@@ -0,0 +1,171 @@
+/** Origin of sandboxed iframes, data: URLs and other opaque origins */
+export const OPAQUE_ORIGIN = "null";
+
+const DEFAULT_PORTS: { [scheme: string]: string } = { http: "80", https: "443", ws: "80", wss: "443" };
+const LOCAL_HOSTS = ["localhost", "127.0.0.1", "[::1]"];
+
+const ORIGIN_PATTERN = /^(?:([a-z][a-z0-9+.-]*|\*):\/\/)?(\*|\*\.[^:/]+|\[[0-9a-f:.]+\]|[^:/*]+)(?::(\d{1,5}|\*))?\/?$/i;
+
+/**
+ * A parsed entry of an allow list. Entries look like origins where parts may be
+ * left out or replaced by `*`:
+ *
+ * - `https://app.example.com`: that origin only, on the default port
+ * - `https://*.example.com`: any subdomain (not example.com itself)
+ * - `http://localhost:*`: any port
+ * - `app.example.com`: https only, except for localhost which also allows http
+ * - `*`: any origin except opaque ones
+ */
+export class OriginPattern {
+	/** Lowercase scheme, "*" for any */
+	scheme: string;
+	/** Lowercase host, "*" for any, or starting with "*." for subdomains */
+	host: string;
+	/** Port as a string, "*" for any */
+	port: string;
+	constructor(public pattern: string) {
+		let match = ORIGIN_PATTERN.exec(String(pattern ?? "").trim());
+		if (!match) {
+			throw new Error("Invalid origin pattern " + JSON.stringify(pattern));
+		}
+		this.host = match[2].toLowerCase();
+		if (match[1]) {
+			this.scheme = match[1].toLowerCase();
+		} else if (this.host == "*") {
+			this.scheme = "*";
+		} else {
+			this.scheme = LOCAL_HOSTS.indexOf(this.host) >= 0 ? "http|https" : "https";
+		}
+		this.port = match[3] ?? (this.host == "*" ? "*" : "");
+	}
+	matches(origin: ParsedOrigin): boolean {
+		if (this.scheme != "*" && this.scheme.split("|").indexOf(origin.scheme) < 0) {
+			return false;
+		}
+		if (this.port != "*" && (this.port || DEFAULT_PORTS[origin.scheme] || "") != origin.port) {
+			return false;
+		}
+		if (this.host == "*") {
+			return true;
+		}
+		if (this.host.startsWith("*.")) {
+			return origin.host.endsWith(this.host.substring(1));
+		}
+		return origin.host == this.host;
+	}
+	/** The one origin this pattern allows, null when it has wildcards */
+	getExactOrigin(): string | null {
+		if (this.scheme.indexOf("|") >= 0 || this.scheme == "*" || this.host.indexOf("*") >= 0 || this.port == "*") {
+			return null;
+		}
+		let port = this.port && this.port != DEFAULT_PORTS[this.scheme] ? ":" + this.port : "";
+		return this.scheme + "://" + this.host + port;
+	}
+}
+
+export interface ParsedOrigin {
+	scheme: string;
+	host: string;
+	/** Explicit or default port */
+	port: string;
+}
+
+/**
+ * Split an origin like event.origin into its parts. Returns null for opaque
+ * and malformed origins.
+ */
+export function parseOrigin(origin: string): ParsedOrigin | null {
+	let match = typeof origin == "string" ? /^([a-z][a-z0-9+.-]*):\/\/(\[[0-9a-f:.]+\]|[^:/\[\]]+)(?::(\d{1,5}))?$/i.exec(origin) : null;
+	if (!match) {
+		return null;
+	}
+	let scheme = match[1].toLowerCase();
+	return { scheme, host: match[2].toLowerCase(), port: match[3] ?? DEFAULT_PORTS[scheme] ?? "" };
+}
+
+export type OriginBlockReason = "not-allowed" | "opaque-origin" | "invalid-origin";
+
+/**
+ * Emitted whenever a policy rejects a message, for audit logs
+ */
+export interface OriginAuditEvent {
+	origin: string;
+	reason: OriginBlockReason;
+	/** What was blocked, such as the envelope type or "tool-call" */
+	context?: string;
+	functionName?: string;
+	messageId?: string;
+	timestamp: number;
+}
+
+export class OriginPolicyOptions {
+	/** Allowed origin patterns, see OriginPattern. An empty list allows nothing. */
+	allowedOrigins: string[] = [];
+	/**
+	 * Accept messages from opaque ("null") origins, such as sandboxed iframes
+	 * without allow-same-origin (default: false). Anything on the page can post
+	 * with a null origin, so rely on the source window check as well.
+	 */
+	allowOpaqueOrigins?: boolean = false;
+	/** Called for every blocked message */
+	onBlocked?: (event: OriginAuditEvent) => void;
+}
+
+/**
+ * Decides which origins a bridge accepts messages from and which origin it
+ * posts to.
+ *
+ * Usage:
+ *   const policy = new OriginPolicy({ allowedOrigins: ['https://*.botdojo.com', 'localhost:*'] });
+ *   policy.isAllowed('http://localhost:3000'); // true
+ *   policy.isAllowed('http://app.botdojo.com'); // false, https only
+ */
+export class OriginPolicy {
+	options: OriginPolicyOptions;
+	patterns: OriginPattern[];
+	constructor(options?: Partial<OriginPolicyOptions>) {
+		this.options = { ...new OriginPolicyOptions(), ...options };
+		this.patterns = (this.options.allowedOrigins ?? []).map((pattern) => new OriginPattern(pattern));
+	}
+	/** Why `origin` is blocked, or null when it is allowed */
+	getBlockReason(origin: string): OriginBlockReason | null {
+		if (origin === OPAQUE_ORIGIN) {
+			return this.options.allowOpaqueOrigins ? null : "opaque-origin";
+		}
+		let parsed = parseOrigin(origin);
+		if (!parsed) {
+			return "invalid-origin";
+		}
+		return this.patterns.some((pattern) => pattern.matches(parsed)) ? null : "not-allowed";
+	}
+	isAllowed(origin: string): boolean {
+		return this.getBlockReason(origin) === null;
+	}
+	/**
+	 * Like isAllowed, but reports a blocked origin to onBlocked
+	 */
+	check(origin: string, details?: Pick<OriginAuditEvent, "context" | "functionName" | "messageId">): boolean {
+		let reason = this.getBlockReason(origin);
+		if (reason === null) {
+			return true;
+		}
+		if (this.options.onBlocked) {
+			this.options.onBlocked({ origin, reason, ...details, timestamp: Date.now() });
+		}
+		return false;
+	}
+	/**
+	 * targetOrigin for postMessage: the only origin the policy allows, or the
+	 * origin the peer was seen at (when allowed). null when neither pins it down.
+	 * An opaque peer can only be reached with "*".
+	 */
+	getTargetOrigin(peerOrigin?: string): string | null {
+		if (peerOrigin !== undefined && this.isAllowed(peerOrigin)) {
+			return peerOrigin === OPAQUE_ORIGIN ? "*" : peerOrigin;
+		}
+		if (this.patterns.length == 1) {
+			return this.patterns[0].getExactOrigin();
+		}
+		return null;
+	}
+}
@@ -0,0 +1,126 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+	InMemoryRPCClient,
+	InMemoryRPCHub,
+	PresenceEvent,
+	PresenceOptions,
+	RPCConnection,
+	RPCLogger,
+	RPCMessage,
+	RPCMessageError,
+	RPCPresence,
+	SilentRPCLogger,
+} from "./index";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Keeps warnings and errors, the rest goes nowhere */
+class RecordingLogger implements RPCLogger {
+	entries: string[] = [];
+	debug() { }
+	info() { }
+	warn(message: string) {
+		this.entries.push(message);
+	}
+	error(message: string) {
+		this.entries.push(message);
+	}
+}
+
+let connections: RPCConnection[] = [];
+
+async function join(hub: InMemoryRPCHub, clientId: string, options?: PresenceOptions, logger: RPCLogger = new SilentRPCLogger()) {
+	let client = new InMemoryRPCClient(hub, { clientId, defaultDestinationId: "*", baseChannel: "test", getToken: null });
+	let connection = new RPCConnection(client, { logger });
+	connections.push(connection);
+	await connection.init();
+	let presence = new RPCPresence(connection, options);
+	let events: string[] = [];
+	let record = (event: PresenceEvent) => events.push(event.type + " " + event.peer.clientId + (event.expired ? " expired" : ""));
+	presence.addEventListener("join", record);
+	presence.addEventListener("leave", record);
+	presence.addEventListener("update", record);
+	await presence.start();
+	return { client, connection, presence, events };
+}
+
+afterEach(async () => {
+	await Promise.all(connections.map((connection) => connection.close()));
+	connections = [];
+});
+
+describe("RPCPresence", () => {
+	it("tells peers who is there, with their metadata", async () => {
+		let hub = new InMemoryRPCHub();
+		let a = await join(hub, "a", { metadata: { kind: "host" } });
+		let b = await join(hub, "b", { metadata: { kind: "canvas" } });
+		await sleep(10);
+		expect(a.presence.getPeers().map((peer) => [peer.clientId, peer.metadata])).toEqual([["b", { kind: "canvas" }]]);
+		// b learned about a from its answer to the join
+		expect(b.presence.getPeers().map((peer) => [peer.clientId, peer.metadata])).toEqual([["a", { kind: "host" }]]);
+		await b.presence.updateMetadata({ kind: "canvas", busy: true });
+		await sleep(10);
+		expect(a.presence.getPeer("b").metadata).toEqual({ kind: "canvas", busy: true });
+		expect(a.events).toEqual(["join b", "update b"]);
+	});
+
+	it("says goodbye before close() closes the transport", async () => {
+		let hub = new InMemoryRPCHub();
+		let a = await join(hub, "a");
+		let b = await join(hub, "b");
+		await sleep(10);
+		// a transport that takes a while to hand messages over
+		let sendMessage = b.client.sendMessage.bind(b.client);
+		b.client.sendMessage = async (msg: RPCMessage) => {
+			await sleep(10);
+			return sendMessage(msg);
+		};
+		await b.connection.close();
+		await sleep(10);
+		expect(a.events).toEqual(["join b", "leave b"]);
+		expect(a.presence.isPresent("b")).toBe(false);
+	});
+
+	it("expires peers that go silent", async () => {
+		let hub = new InMemoryRPCHub();
+		let a = await join(hub, "a", { heartbeatMs: 20, expiryMs: 60 });
+		let b = await join(hub, "b", { heartbeatMs: 20, expiryMs: 60 });
+		await sleep(50);
+		expect(a.presence.isPresent("b")).toBe(true);
+		// b's messages stop getting through
+		b.client.sendMessage = async () => 0;
+		await sleep(120);
+		expect(a.presence.isPresent("b")).toBe(false);
+		expect(a.events).toEqual(["join b", "leave b expired"]);
+	});
+
+	it("waits for a peer to show up", async () => {
+		let hub = new InMemoryRPCHub();
+		let a = await join(hub, "a");
+		let waiting = a.presence.waitForPeer("late", 1000);
+		await sleep(10);
+		await join(hub, "late", { metadata: { n: 1 } });
+		expect((await waiting).metadata).toEqual({ n: 1 });
+		await expect(a.presence.waitForPeer("never", 20)).rejects.toMatchObject({ code: "TIMEOUT" });
+	});
+
+	it("ignores the answers of peers without presence support", async () => {
+		let hub = new InMemoryRPCHub();
+		let legacy = new InMemoryRPCClient(hub, { clientId: "legacy", defaultDestinationId: "*", baseChannel: "test", getToken: null });
+		await legacy.init();
+		let answered = 0;
+		legacy.onMessage = async (msg) => {
+			if (msg.direction == "request") {
+				answered++;
+				await legacy.sendMessage(RPCMessage.response(msg, new RPCMessageError("Unknown function " + msg.functionName)));
+			}
+		};
+		let logger = new RecordingLogger();
+		let a = await join(hub, "a", { heartbeatMs: 10 }, logger);
+		await sleep(50);
+		expect(answered).toBeGreaterThan(2);
+		expect(logger.entries).toEqual([]);
+		expect(a.presence.getPeers()).toEqual([]);
+		await legacy.close();
+	});
+});
@@ -0,0 +1,261 @@
+import { RPCAbortSignal, getAbortReasonMessage } from "./cancellation";
+import { RPCConnection, RPCMessage, RPCMessageError } from "./index";
+
+/** Reserved function name of the control message carrying presence announcements */
+export const RPC_PRESENCE_FUNCTION = "___presence";
+
+/**
+ * What a peer says about itself:
+ * - "join": it connected, and everyone already there should answer with a heartbeat
+ * - "heartbeat": it is still there, sent every heartbeatMs and when metadata changes
+ * - "leave": it is going away
+ */
+export interface PresenceAnnouncement {
+	type: "join" | "heartbeat" | "leave";
+	metadata?: { [key: string]: any };
+	/** How long the sender counts as present without hearing from it again */
+	ttlMs?: number;
+}
+
+export class PresencePeer {
+	constructor(
+		public clientId: string,
+		public metadata: { [key: string]: any },
+		public joinedAt: number,
+		public lastSeen: number,
+		public ttlMs: number,
+	) { }
+}
+
+export type PresenceEventType = "join" | "leave" | "update";
+
+/**
+ * - join: a peer showed up
+ * - leave: a peer left, or expired when `expired` is set
+ * - update: a present peer changed its metadata
+ */
+export interface PresenceEvent {
+	type: PresenceEventType;
+	peer: PresencePeer;
+	expired?: boolean;
+}
+
+export class PresenceOptions {
+	/** Announced to the other peers, e.g. a display name or what the client can do */
+	metadata?: { [key: string]: any } = {};
+	/** How often this client announces it is still there (default: 10000ms) */
+	heartbeatMs?: number = 10000;
+	/** How long others count this client as present after its last announcement (default: 30000ms) */
+	expiryMs?: number = 30000;
+}
+
+/**
+ * Tracks which clients are on the channel of a connection. Every client that
+ * runs one announces itself to "*" when it starts, repeats that as heartbeats
+ * and says goodbye when it stops. Peers that go silent expire.
+ *
+ * Usage:
+ *   const presence = new RPCPresence(connection, { metadata: { kind: 'canvas' } });
+ *   presence.addEventListener('join', ({ peer }) => console.log(peer.clientId, 'joined'));
+ *   await presence.start();
+ *   await presence.waitForPeer('worker-1', 5000);
+ *   presence.getPeers().filter((peer) => peer.metadata.kind == 'canvas');
+ */
+export class RPCPresence {
+	options: PresenceOptions;
+	private peers: Map<string, PresencePeer> = new Map<string, PresencePeer>();
+	private listeners: Array<{ type: PresenceEventType; listener: (event: PresenceEvent) => void }> = [];
+	private timer: any = null;
+	private previousStatusHandler: ((status: any, reason?: string) => void) | undefined;
+	private running: boolean = false;
+	constructor(public connection: RPCConnection, options?: PresenceOptions) {
+		this.options = { ...new PresenceOptions(), ...options };
+	}
+	get clientId(): string {
+		return this.connection.sender.clientId;
+	}
+	/**
+	 * Announce this client and start listening for others. Call after
+	 * connection.init().
+	 */
+	async start() {
+		if (this.running) {
+			return;
+		}
+		this.running = true;
+		this.connection.presence = this;
+		// announce again after a reconnect, peers may have expired us meanwhile
+		this.previousStatusHandler = this.connection.sender.onConnectionStatusChange;
+		this.connection.sender.onConnectionStatusChange = (status, reason) => {
+			this.previousStatusHandler?.(status, reason);
+			if (status == "connected" && this.running) {
+				this.announce("*", "join");
+			}
+		};
+		this.timer = setInterval(() => {
+			this.expirePeers();
+			this.announce("*", "heartbeat");
+		}, this.options.heartbeatMs ?? 10000);
+		await this.announce("*", "join");
+	}
+	/**
+	 * Say goodbye to the other peers and stop tracking them
+	 */
+	async stop() {
+		if (!this.running) {
+			return;
+		}
+		this.running = false;
+		clearInterval(this.timer);
+		this.timer = null;
+		this.connection.sender.onConnectionStatusChange = this.previousStatusHandler;
+		if (this.connection.presence === this) {
+			this.connection.presence = null;
+		}
+		this.peers.clear();
+		await this.announce("*", "leave");
+	}
+	/** Peers currently present, in the order they joined */
+	getPeers(): PresencePeer[] {
+		this.expirePeers();
+		return Array.from(this.peers.values());
+	}
+	getPeer(clientId: string): PresencePeer | undefined {
+		this.expirePeers();
+		return this.peers.get(clientId);
+	}
+	isPresent(clientId: string): boolean {
+		return this.getPeer(clientId) !== undefined;
+	}
+	/**
+	 * Replace this client's metadata and tell the other peers right away
+	 */
+	updateMetadata(metadata: { [key: string]: any }): Promise<void> {
+		this.options.metadata = metadata;
+		return this.announce("*", "heartbeat");
+	}
+	/**
+	 * Resolve with the peer once it is present. Rejects with a TIMEOUT error
+	 * after timeoutMs, or with an ABORTED error when the signal aborts.
+	 */
+	waitForPeer(clientId: string, timeoutMs?: number, signal?: RPCAbortSignal): Promise<PresencePeer> {
+		let peer = this.getPeer(clientId);
+		if (peer) {
+			return Promise.resolve(peer);
+		}
+		return new Promise<PresencePeer>((resolve, reject) => {
+			let timer: any;
+			let cleanup = () => {
+				clearTimeout(timer);
+				this.removeEventListener("join", onJoin);
+				signal?.removeEventListener("abort", onAbort);
+			};
+			let onJoin = (event: PresenceEvent) => {
+				if (event.peer.clientId == clientId) {
+					cleanup();
+					resolve(event.peer);
+				}
+			};
+			let onAbort = () => {
+				cleanup();
+				reject(new RPCMessageError(getAbortReasonMessage(signal), "ABORTED"));
+			};
+			if (signal?.aborted) {
+				onAbort();
+				return;
+			}
+			this.addEventListener("join", onJoin);
+			signal?.addEventListener("abort", onAbort, { once: true });
+			if (timeoutMs !== undefined) {
+				timer = setTimeout(() => {
+					cleanup();
+					reject(new RPCMessageError("Timeout waiting for " + clientId + " to be present", "TIMEOUT"));
+				}, timeoutMs);
+			}
+		});
+	}
+	addEventListener(type: PresenceEventType, listener: (event: PresenceEvent) => void) {
+		this.listeners.push({ type, listener });
+	}
+	removeEventListener(type: PresenceEventType, listener: (event: PresenceEvent) => void) {
+		this.listeners = this.listeners.filter((entry) => entry.type != type || entry.listener !== listener);
+	}
+	/**
+	 * Handle an announcement of another peer, called by the connection
+	 */
+	receive(msg: RPCMessage) {
+		let announcement: PresenceAnnouncement = Array.isArray(msg.data) ? msg.data[0] : msg.data;
+		if (!this.running || !msg.source || msg.source == this.clientId || !announcement || typeof announcement != "object") {
+			return;
+		}
+		let now = Date.now();
+		let peer = this.peers.get(msg.source);
+		if (announcement.type == "leave") {
+			if (peer) {
+				this.peers.delete(msg.source);
+				this.emit({ type: "leave", peer });
+			}
+			return;
+		}
+		if (announcement.type != "join" && announcement.type != "heartbeat") {
+			return;
+		}
+		let metadata = announcement.metadata && typeof announcement.metadata == "object" ? announcement.metadata : {};
+		let ttlMs = typeof announcement.ttlMs == "number" && announcement.ttlMs > 0 ? announcement.ttlMs : this.options.expiryMs ?? 30000;
+		if (announcement.type == "join") {
+			// let the newcomer know who is already here
+			this.announce(msg.source, "heartbeat");
+		}
+		if (!peer) {
+			peer = new PresencePeer(msg.source, metadata, now, now, ttlMs);
+			this.peers.set(msg.source, peer);
+			this.emit({ type: "join", peer });
+			return;
+		}
+		let changed = JSON.stringify(peer.metadata) != JSON.stringify(metadata);
+		peer.lastSeen = now;
+		peer.ttlMs = ttlMs;
+		peer.metadata = metadata;
+		if (changed) {
+			this.emit({ type: "update", peer });
+		}
+	}
+	private expirePeers() {
+		let now = Date.now();
+		this.peers.forEach((peer, clientId) => {
+			if (peer.lastSeen + peer.ttlMs < now) {
+				this.peers.delete(clientId);
+				this.emit({ type: "leave", peer, expired: true });
+			}
+		});
+	}
+	private emit(event: PresenceEvent) {
+		this.listeners
+			.filter((entry) => entry.type == event.type)
+			.forEach((entry) => {
+				try {
+					entry.listener(event);
+				} catch (e) {
+					this.connection.logger.error("Presence listener failed", { clientId: this.clientId, data: event, error: e });
+				}
+			});
+	}
+	/**
+	 * Send an announcement straight through the transport, like the other
+	 * control messages: no interceptors and no response
+	 */
+	private async announce(destinationId: string, type: PresenceAnnouncement["type"]) {
+		let announcement: PresenceAnnouncement = { type };
+		if (type != "leave") {
+			announcement.metadata = this.options.metadata ?? {};
+			announcement.ttlMs = this.options.expiryMs ?? 30000;
+		}
+		let msg = RPCMessage.request(this.clientId, destinationId, RPC_PRESENCE_FUNCTION, [announcement]);
+		msg.notification = true;
+		try {
+			await this.connection.sender.sendMessage(msg);
+		} catch (e) {
+			this.connection.logger.warn("Failed to send presence announcement", { clientId: this.clientId, destination: destinationId, data: type, error: e });
+		}
+	}
+}
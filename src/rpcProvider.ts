@@ -2,10 +2,13 @@ import {
 	IGetRPCProviders,
 	IRPCMessageServerBroadcaster,
 	IRPC_Client,
+	RPCCallContext,
 	RPCConnection,
 	RPCMessage,
 	RPCMessageError,
 } from "./index";
+import { RPCInterceptor } from "./interceptors";
+import { getDefaultLogger } from "./logger";
 
 export class HostParams {
 	serviceId: string;
@@ -53,7 +56,7 @@ export interface IRPCProvider {
 		hostId: string,
 		baseChannel: string,
 	): IRPC_Client;
-	getConnectionToFunctionCall(channel: string, senderId: string, receiverId: string, onMessage: (msg: RPCMessage) => Promise<any>): Promise<RPCConnection>
+	getConnectionToFunctionCall(channel: string, senderId: string, receiverId: string, onMessage: (msg: RPCMessage, context?: RPCCallContext) => Promise<any>): Promise<RPCConnection>
 	getChannelListener(channel: string): ChannelListener;
 	getChannelBroadcaster(): IRPCMessageServerBroadcaster;
 }
@@ -161,9 +164,9 @@ export class ChannelBroadcaster {
 			this.inflightCount++;
 			await this._send(data)
 		} catch (e) {
-			console.error(e);
+			getDefaultLogger().error("Error sending message", { namespace: this.namespace, error: e });
 			this.connecting = false
-			throw "Error sending Message " + this.namespace + " " + e;
+			throw new RPCMessageError({ message: "Error sending Message " + this.namespace + " " + e, cause: e }, "SEND_FAILED");
 		} finally {
 			if (this.inflightCount > 0) {
 				this.inflightCount--;
@@ -204,7 +207,13 @@ export class BackendJobControlMessage {
 
 export class RPCProvider implements IRPCProvider {
 	ctx: IBotDojoRpcContext;
-	async getConnectionToFunctionCall(channel: string, senderId: string, receiverId: string, onMessage: (msg: RPCMessage) => Promise<any>): Promise<RPCConnection> {
+	/** Interceptors installed on every connection this provider creates */
+	interceptors: RPCInterceptor[] = [];
+	use(interceptor: RPCInterceptor): this {
+		this.interceptors.push(interceptor);
+		return this;
+	}
+	async getConnectionToFunctionCall(channel: string, senderId: string, receiverId: string, onMessage: (msg: RPCMessage, context?: RPCCallContext) => Promise<any>): Promise<RPCConnection> {
 		let c = '/rpc/uc/' + channel;
 		let connection = new RPCConnection(
 			this.getClient(
@@ -213,7 +222,7 @@ export class RPCProvider implements IRPCProvider {
 				receiverId,
 				c,
 			),
-			null,
+			{ interceptors: this.interceptors },
 			onMessage,
 		);
 		await connection.init();
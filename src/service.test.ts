@@ -0,0 +1,114 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { createAbortController, defineService, InMemoryRPCClient, InMemoryRPCHub, RPCCallContext, RPCConnection, SilentRPCLogger } from "./index";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+interface CanvasService {
+	render(data: { title: string; items: number[] }): Promise<number>;
+	getState(): { rendered: number };
+	wait(ms: number): Promise<string>;
+}
+
+let connections: RPCConnection[] = [];
+
+async function setup() {
+	let hub = new InMemoryRPCHub();
+	let connect = (clientId: string, destinationId: string) => {
+		let client = new InMemoryRPCClient(hub, { clientId, defaultDestinationId: destinationId, baseChannel: "test", getToken: null });
+		let connection = new RPCConnection(client, { logger: new SilentRPCLogger() });
+		connections.push(connection);
+		return connection;
+	};
+	let host = connect("host", "caller");
+	let caller = connect("caller", "host");
+	await host.init();
+	await caller.init();
+	return { host, caller };
+}
+
+afterEach(async () => {
+	await Promise.all(connections.map((connection) => connection.close()));
+	connections = [];
+});
+
+describe("defineService", () => {
+	it("calls the exposed methods through the proxy", async () => {
+		let { host, caller } = await setup();
+		let service = defineService<CanvasService>({ namespace: "canvas" });
+		let rendered = 0;
+		let registration = service.expose(host, {
+			render: async (data) => (rendered += data.items.length),
+			getState: () => ({ rendered }),
+			wait: async (ms) => "waited " + ms,
+		});
+		expect(registration.functionNames.sort()).toEqual(["canvas.getState", "canvas.render", "canvas.wait"]);
+		let canvas = service.connect(caller);
+		expect(await canvas.render({ title: "t", items: [1, 2, 3] })).toBe(3);
+		expect(await canvas.getState()).toEqual({ rendered: 3 });
+		// awaiting the proxy itself doesn't call a remote "then"
+		expect(await canvas).toBe(canvas);
+	});
+
+	it("stops answering once the registration is disposed", async () => {
+		let { host, caller } = await setup();
+		let service = defineService<CanvasService>();
+		let registration = service.expose(host, {
+			render: async () => 1,
+			getState: () => ({ rendered: 0 }),
+			wait: async () => "",
+		});
+		registration.dispose();
+		await expect(service.connect(caller, "host", 1000).getState()).rejects.toThrow("getState");
+	});
+
+	it("passes the call context to the methods with withContext", async () => {
+		let { host, caller } = await setup();
+		let service = defineService<CanvasService>({ namespace: "canvas", withContext: true });
+		let contexts: RPCCallContext[] = [];
+		let aborted = false;
+		service.expose(host, {
+			render: async (data, context) => {
+				contexts.push(context);
+				return data.items.length;
+			},
+			getState: (context) => {
+				contexts.push(context);
+				return { rendered: 0 };
+			},
+			wait: async (ms, context) => {
+				await new Promise((resolve) => context.signal.addEventListener("abort", () => resolve(undefined)));
+				aborted = true;
+				return "cancelled";
+			},
+		});
+		let canvas = service.connect(caller);
+		expect(await canvas.render({ title: "t", items: [1] })).toBe(1);
+		expect(await canvas.getState()).toEqual({ rendered: 0 });
+		expect(contexts.map((context) => [context.message.source, context.message.functionName])).toEqual([
+			["caller", "canvas.render"],
+			["caller", "canvas.getState"],
+		]);
+		expect(contexts.every((context) => context instanceof RPCCallContext && !context.signal.aborted)).toBe(true);
+
+		let controller = createAbortController();
+		let waiting = caller.sendRequest("host", "canvas.wait", [1000], undefined, { signal: controller.signal });
+		await sleep(10);
+		controller.abort("stop");
+		await expect(waiting).rejects.toMatchObject({ code: "ABORTED" });
+		await sleep(10);
+		expect(aborted).toBe(true);
+	});
+
+	it("doesn't pass a context without withContext", async () => {
+		let { host, caller } = await setup();
+		let service = defineService<CanvasService>();
+		let received: any[][] = [];
+		service.expose(host, {
+			render: async (...args: any[]) => received.push(args),
+			getState: () => ({ rendered: 0 }),
+			wait: async () => "",
+		});
+		await service.connect(caller).render({ title: "t", items: [] });
+		expect(received).toEqual([[{ title: "t", items: [] }]]);
+	});
+});
@@ -0,0 +1,127 @@
+import { getPropertyNames, RPCAccessRule, RPCCallContext, RPCConnection } from "./index";
+
+/**
+ * The keys of T whose values are functions
+ */
+export type ServiceMethodNames<T> = {
+	[K in keyof T]: T[K] extends (...args: any[]) => any ? K : never;
+}[keyof T] & string;
+
+/**
+ * Caller-side view of a service: every method returns a Promise of its result
+ */
+export type RemoteService<T> = {
+	[K in ServiceMethodNames<T>]: T[K] extends (...args: infer A) => infer R
+		? (...args: A) => Promise<Awaited<R>>
+		: never;
+};
+
+/**
+ * Host-side view of a service: methods may answer synchronously or asynchronously.
+ * With ServiceOptions.withContext they also get an RPCCallContext after the arguments.
+ */
+export type ServiceImplementation<T> = {
+	[K in ServiceMethodNames<T>]: T[K] extends (...args: infer A) => infer R
+		? (...args: [...A, RPCCallContext]) => R | Promise<Awaited<R>>
+		: never;
+};
+
+/**
+ * Per-method access rules for ServiceDefinition.expose, see RPCAccessRule
+ */
+export type ServiceAccess<T> = {
+	[K in ServiceMethodNames<T>]?: RPCAccessRule;
+};
+
+export class ServiceOptions {
+	/** Prefix for the function names on the wire, e.g. "canvas" -> "canvas.render" */
+	namespace?: string;
+	/**
+	 * Pass an RPCCallContext (signal, trace, caller identity) to the exposed
+	 * methods as the last argument, see CallbackHandlerMethods.withContext
+	 */
+	withContext?: boolean;
+}
+
+export class ServiceRegistration {
+	constructor(public connection: RPCConnection, public functionNames: string[]) { }
+	dispose() {
+		this.functionNames.forEach((name) => this.connection.callbacks.delete(name));
+		this.functionNames = [];
+	}
+}
+
+/**
+ * A typed contract shared by both sides of an RPCConnection.
+ *
+ * Usage:
+ *   interface CanvasService { render(data: CanvasData): Promise<void>; getState(): CanvasState; }
+ *   const canvasService = defineService<CanvasService>({ namespace: 'canvas' });
+ *
+ *   // host
+ *   canvasService.expose(connection, { render: async (data) => {...}, getState: () => state });
+ *   // host, with the call context after the arguments
+ *   defineService<CanvasService>({ namespace: 'canvas', withContext: true })
+ *     .expose(connection, { render: async (data, context) => {...}, getState: (context) => state });
+ *   // caller
+ *   const canvas = canvasService.connect(connection, 'host-id');
+ *   const state = await canvas.getState();
+ */
+export class ServiceDefinition<T> {
+	constructor(public options: ServiceOptions = {}) { }
+
+	getFunctionName(method: string): string {
+		return this.options.namespace ? this.options.namespace + "." + method : method;
+	}
+
+	/**
+	 * Register every method of the implementation as a handler on the connection,
+	 * optionally limiting who may call each of them
+	 */
+	expose(connection: RPCConnection, implementation: ServiceImplementation<T>, access?: ServiceAccess<T>): ServiceRegistration {
+		let names = getPropertyNames(implementation).filter((name) => typeof implementation[name] == "function");
+		let functionNames = names.map((name) => {
+			let functionName = this.getFunctionName(name);
+			connection.callbacks.set(functionName, {
+				source: implementation,
+				func: implementation[name],
+				withContext: this.options.withContext,
+				access: access?.[name],
+			});
+			return functionName;
+		});
+		return new ServiceRegistration(connection, functionNames);
+	}
+
+	/**
+	 * Create a proxy whose method calls are sent to destinationId through connection.sendRequest
+	 */
+	connect(connection: RPCConnection, destinationId?: string, timeoutMs?: number): RemoteService<T> {
+		let methods = new Map<string, Function>();
+		return new Proxy({} as RemoteService<T>, {
+			get: (_target, prop) => {
+				// Never look like a thenable, otherwise `await service` would call .then()
+				if (typeof prop != "string" || prop == "then") {
+					return undefined;
+				}
+				let method = methods.get(prop);
+				if (!method) {
+					let functionName = this.getFunctionName(prop);
+					method = (...args: any[]) =>
+						connection.sendRequest(
+							destinationId ?? connection.sender.defaultDestinationId,
+							functionName,
+							args,
+							timeoutMs,
+						);
+					methods.set(prop, method);
+				}
+				return method;
+			},
+		});
+	}
+}
+
+export function defineService<T extends object>(options?: ServiceOptions): ServiceDefinition<T> {
+	return new ServiceDefinition<T>(options);
+}
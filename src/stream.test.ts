@@ -0,0 +1,218 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+	InMemoryRPCClient,
+	InMemoryRPCHub,
+	RPC_CANCEL_FUNCTION,
+	RPCConnection,
+	RPCMessage,
+	RPCStreamReader,
+	SilentRPCLogger,
+} from "./index";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+let connections: RPCConnection[] = [];
+
+async function setup() {
+	let hub = new InMemoryRPCHub();
+	let connect = (clientId: string, destinationId: string) => {
+		let client = new InMemoryRPCClient(hub, { clientId, defaultDestinationId: destinationId, baseChannel: "test", getToken: null });
+		let connection = new RPCConnection(client, { logger: new SilentRPCLogger() });
+		connections.push(connection);
+		return connection;
+	};
+	let host = connect("host", "caller");
+	let caller = connect("caller", "host");
+	await host.init();
+	await caller.init();
+	return { hub, host, caller };
+}
+
+/** A reader on its own, with what it asked of the producer */
+function createReader(highWaterMark: number) {
+	let pulls: number[] = [];
+	let cancels: string[] = [];
+	let reader = new RPCStreamReader<number>(
+		highWaterMark,
+		0,
+		(credits) => pulls.push(credits),
+		(reason) => cancels.push(reason),
+		() => undefined,
+	);
+	return { reader, pulls, cancels };
+}
+
+async function collect<T>(iterator: AsyncIterable<T>): Promise<T[]> {
+	let items: T[] = [];
+	for await (let item of iterator) {
+		items.push(item);
+	}
+	return items;
+}
+
+afterEach(async () => {
+	await Promise.all(connections.map((connection) => connection.close()));
+	connections = [];
+});
+
+describe("sendStreamRequest", () => {
+	it("hands out the items of a remote generator in order", async () => {
+		let { host, caller } = await setup();
+		host.callbacks.set("count", {
+			source: null,
+			func: async function* (n: number) {
+				for (let i = 0; i < n; i++) {
+					yield { i, at: new Date(i) };
+				}
+			},
+		});
+		let items = await collect(caller.sendStreamRequest("host", "count", [40], { highWaterMark: 4 }));
+		expect(items.map((item) => item.i)).toEqual(Array.from({ length: 40 }, (_, i) => i));
+		expect(items[3].at).toEqual(new Date(3));
+	});
+
+	it("keeps the producer within highWaterMark items of the consumer", async () => {
+		let { host, caller } = await setup();
+		let produced = 0;
+		host.callbacks.set("endless", {
+			source: null,
+			func: async function* () {
+				while (true) {
+					yield produced++;
+				}
+			},
+		});
+		let stream = caller.sendStreamRequest<number>("host", "endless", [], { highWaterMark: 4 });
+		expect((await stream.next()).value).toBe(0);
+		await sleep(20);
+		expect(produced).toBeLessThanOrEqual(5);
+		for (let i = 1; i < 10; i++) {
+			expect((await stream.next()).value).toBe(i);
+		}
+		await sleep(20);
+		expect(produced).toBeLessThanOrEqual(15);
+		await stream.return();
+	});
+
+	it("cancels the remote generator when the consumer breaks out", async () => {
+		let { host, caller } = await setup();
+		let cleanedUp = false;
+		host.callbacks.set("endless", {
+			source: null,
+			func: async function* () {
+				try {
+					for (let i = 0; ; i++) {
+						yield i;
+					}
+				} finally {
+					cleanedUp = true;
+				}
+			},
+		});
+		for await (let item of caller.sendStreamRequest<number>("host", "endless", [], { highWaterMark: 2 })) {
+			if (item == 5) {
+				break;
+			}
+		}
+		await sleep(20);
+		expect(cleanedUp).toBe(true);
+		expect(caller.getCallbackStats().pendingResponses).toBe(0);
+	});
+
+	it("rejects with the error the generator threw", async () => {
+		let { host, caller } = await setup();
+		host.callbacks.set("broken", {
+			source: null,
+			func: async function* () {
+				yield 1;
+				throw new Error("generator broke");
+			},
+		});
+		let items: number[] = [];
+		await expect(
+			(async () => {
+				for await (let item of caller.sendStreamRequest<number>("host", "broken", [])) {
+					items.push(item);
+				}
+			})(),
+		).rejects.toThrow("generator broke");
+		expect(items).toEqual([1]);
+	});
+
+	it("fails the stream when the producer ignores the credits it was granted", async () => {
+		let { hub, caller } = await setup();
+		let cancels: any[] = [];
+		let producer = new InMemoryRPCClient(hub, { clientId: "flooder", defaultDestinationId: "caller", baseChannel: "test", getToken: null });
+		await producer.init();
+		producer.onMessage = async (msg) => {
+			if (msg.stream == "open") {
+				for (let seq = 0; seq < 100; seq++) {
+					let frame = RPCMessage.response(msg, seq);
+					frame.stream = "next";
+					frame.seq = seq;
+					await producer.sendMessage(frame);
+				}
+			} else if (msg.functionName == RPC_CANCEL_FUNCTION) {
+				cancels.push(msg.data);
+			}
+		};
+		let stream = caller.sendStreamRequest<number>("flooder", "flood", [], { highWaterMark: 4 });
+		await sleep(20);
+		await expect(collect(stream)).rejects.toMatchObject({ code: "STREAM_CREDIT_EXCEEDED" });
+		expect(cancels).toHaveLength(1);
+		await producer.close();
+	});
+});
+
+describe("RPCStreamReader", () => {
+	it("puts frames back in order and drops repeated ones", async () => {
+		let { reader } = createReader(4);
+		reader.push("next", 2, 2);
+		reader.push("next", 1, 1);
+		reader.push("next", 1, 99);
+		reader.push("next", 0, 0);
+		reader.push("next", 0, 99);
+		reader.push("end", 3, undefined);
+		expect(await collect(reader)).toEqual([0, 1, 2]);
+	});
+
+	it("accepts more items as credits are handed back", async () => {
+		let { reader, pulls, cancels } = createReader(2);
+		reader.push("next", 0, 0);
+		reader.push("next", 1, 1);
+		expect((await reader.next()).value).toBe(0);
+		expect((await reader.next()).value).toBe(1);
+		expect(pulls).toEqual([1, 1]);
+		reader.push("next", 2, 2);
+		reader.push("next", 3, 3);
+		reader.push("end", 4, undefined);
+		expect(await collect(reader)).toEqual([2, 3]);
+		expect(cancels).toEqual([]);
+	});
+
+	it("fails on an item beyond the granted credits", async () => {
+		let { reader, cancels } = createReader(2);
+		reader.push("next", 0, 0);
+		reader.push("next", 1, 1);
+		reader.push("next", 2, 2);
+		expect(cancels).toEqual(["Stream credit exceeded"]);
+		await expect(collect(reader)).rejects.toMatchObject({ code: "STREAM_CREDIT_EXCEEDED" });
+	});
+
+	it("fails on frames far ahead instead of buffering them", async () => {
+		let { reader, cancels } = createReader(4);
+		reader.push("next", 1000000, "x");
+		expect(cancels).toEqual(["Stream credit exceeded"]);
+		expect((reader as any).outOfOrder.size).toBe(0);
+		await expect(reader.next()).rejects.toMatchObject({ code: "STREAM_CREDIT_EXCEEDED" });
+	});
+
+	it("ends when the last granted item is followed by the end frame", async () => {
+		let { reader, cancels } = createReader(2);
+		reader.push("end", 2, undefined);
+		reader.push("next", 1, 1);
+		reader.push("next", 0, 0);
+		expect(await collect(reader)).toEqual([0, 1]);
+		expect(cancels).toEqual([]);
+	});
+});
@@ -0,0 +1,212 @@
+import { RPCAbortSignal } from "./cancellation";
+import { rehydrateError } from "./errors";
+import { RPCTraceContext } from "./tracing";
+import { RPCMessageError } from "./index";
+
+/**
+ * Marks a message as part of a streamed call:
+ * - "open": request asking the handler for an AsyncIterable
+ * - "next": response frame carrying one item
+ * - "end": response frame closing the stream
+ * - "error": response frame carrying an RPCMessageError
+ */
+export type RPCStreamFrameType = "open" | "next" | "end" | "error";
+
+/** Reserved function name of the control message granting more items to a stream producer */
+export const RPC_STREAM_PULL_FUNCTION = "___stream_pull";
+
+export class StreamRequestOptions {
+	/** Items the producer may send ahead of the consumer (default: 16) */
+	highWaterMark?: number = 16;
+	/** Fail the stream when no frame arrives for this long while the consumer waits (default: connection timeout) */
+	idleTimeoutMs?: number;
+	signal?: RPCAbortSignal;
+	/** Extra headers for the request message */
+	headers?: { [key: string]: string };
+	/** Parent span for the request */
+	trace?: RPCTraceContext;
+}
+
+/**
+ * Credits granted by the consumer. The producer takes one credit per item and
+ * waits when none are left.
+ */
+export class RPCStreamCredit {
+	private waiter: (() => void) | null = null;
+	constructor(public available: number) { }
+	add(credits: number) {
+		this.available += credits;
+		this.wake();
+	}
+	wake() {
+		let waiter = this.waiter;
+		this.waiter = null;
+		waiter?.();
+	}
+	async take(isCancelled: () => boolean): Promise<boolean> {
+		while (this.available <= 0) {
+			if (isCancelled()) {
+				return false;
+			}
+			await new Promise<void>((resolve) => (this.waiter = resolve));
+		}
+		if (isCancelled()) {
+			return false;
+		}
+		this.available--;
+		return true;
+	}
+}
+
+export function getStreamIterator(result: any): AsyncIterator<any> | Iterator<any> | null {
+	if (result && typeof result[Symbol.asyncIterator] == "function") {
+		return result[Symbol.asyncIterator]();
+	}
+	if (result && typeof result != "string" && typeof result[Symbol.iterator] == "function") {
+		return result[Symbol.iterator]();
+	}
+	return null;
+}
+
+/**
+ * Consumer side of a streamed call. Frames are buffered in sequence order and
+ * handed out through the AsyncIterator protocol; consumed items are returned to
+ * the producer as credits. Breaking out of `for await` cancels the stream.
+ * Only frames within the granted credits are accepted, which also bounds what
+ * is buffered; a producer going beyond them fails the stream.
+ */
+export class RPCStreamReader<T = any> implements AsyncIterableIterator<T> {
+	private items: T[] = [];
+	private outOfOrder: Map<number, { type: RPCStreamFrameType; data: any }> = new Map();
+	private nextSeq = 0;
+	private finished = false;
+	private error: any = null;
+	private waiting: { resolve: (r: IteratorResult<T>) => void; reject: (e: any) => void } | null = null;
+	private idleTimer: any = null;
+	private consumedSinceGrant = 0;
+	/** Items the producer may have sent so far: the initial credits plus every pull */
+	private granted: number;
+
+	constructor(
+		public highWaterMark: number,
+		private idleTimeoutMs: number,
+		private onPull: (credits: number) => void,
+		private onCancel: (reason: string) => void,
+		private onClose: () => void,
+	) {
+		// a handler returning a plain value sends its one item regardless
+		this.granted = Math.max(highWaterMark, 1);
+	}
+
+	[Symbol.asyncIterator]() {
+		return this;
+	}
+
+	/**
+	 * Accept a frame from the producer. Frames may arrive out of order, repeated
+	 * ones are dropped.
+	 */
+	push(type: RPCStreamFrameType, seq: number, data: any) {
+		if (this.finished) {
+			return;
+		}
+		seq = seq ?? this.nextSeq;
+		if (!Number.isInteger(seq) || seq < this.nextSeq || this.outOfOrder.has(seq)) {
+			return;
+		}
+		// every frame but the last carries an item, and each item takes a credit
+		if (seq > this.granted || (seq == this.granted && type == "next")) {
+			this.onCancel("Stream credit exceeded");
+			this.fail(new RPCMessageError("Stream frame " + seq + " is beyond the " + this.granted + " items granted", "STREAM_CREDIT_EXCEEDED"));
+			return;
+		}
+		this.outOfOrder.set(seq, { type, data });
+		let frame = this.outOfOrder.get(this.nextSeq);
+		while (frame && !this.finished) {
+			this.outOfOrder.delete(this.nextSeq);
+			this.nextSeq++;
+			if (frame.type == "next") {
+				this.items.push(frame.data);
+			} else if (frame.type == "error") {
+				this.fail(frame.data);
+			} else {
+				this.finish();
+			}
+			frame = this.outOfOrder.get(this.nextSeq);
+		}
+		this.flush();
+	}
+
+	fail(error: any) {
+		if (this.finished) {
+			return;
+		}
+		this.error = rehydrateError(error?._type == "MessageError" ? error : new RPCMessageError(error));
+		this.finish();
+		this.flush();
+	}
+
+	private finish() {
+		this.finished = true;
+		clearTimeout(this.idleTimer);
+		this.onClose();
+	}
+
+	private flush() {
+		if (!this.waiting) {
+			return;
+		}
+		let waiting = this.waiting;
+		if (this.items.length > 0) {
+			this.waiting = null;
+			clearTimeout(this.idleTimer);
+			waiting.resolve({ value: this.take(), done: false });
+		} else if (this.finished) {
+			this.waiting = null;
+			if (this.error) {
+				let error = this.error;
+				this.error = null;
+				waiting.reject(error);
+			} else {
+				waiting.resolve({ value: undefined, done: true });
+			}
+		}
+	}
+
+	private take(): T {
+		let item = this.items.shift();
+		this.consumedSinceGrant++;
+		if (!this.finished && this.consumedSinceGrant >= Math.ceil(this.highWaterMark / 2)) {
+			this.granted += this.consumedSinceGrant;
+			this.onPull(this.consumedSinceGrant);
+			this.consumedSinceGrant = 0;
+		}
+		return item;
+	}
+
+	next(): Promise<IteratorResult<T>> {
+		return new Promise((resolve, reject) => {
+			if (this.waiting) {
+				reject(new Error("next() called while a previous next() is still pending"));
+				return;
+			}
+			this.waiting = { resolve, reject };
+			this.flush();
+			if (this.waiting && this.idleTimeoutMs) {
+				this.idleTimer = setTimeout(() => {
+					this.onCancel("Timeout");
+					this.fail(new RPCMessageError("Timeout waiting for the next stream item", "TIMEOUT"));
+				}, this.idleTimeoutMs);
+			}
+		});
+	}
+
+	async return(): Promise<IteratorResult<T>> {
+		if (!this.finished) {
+			this.onCancel("Stream closed by consumer");
+			this.items = [];
+			this.finish();
+		}
+		return { value: undefined, done: true };
+	}
+}
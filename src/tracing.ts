@@ -0,0 +1,158 @@
+import type { RPCInterceptor } from "./interceptors";
+
+/** Header carrying the W3C trace context of the caller's span */
+export const TRACEPARENT_HEADER = "traceparent";
+export const TRACESTATE_HEADER = "tracestate";
+
+/**
+ * W3C trace context. Shaped like OpenTelemetry's SpanContext, so
+ * `otelSpan.spanContext()` can be used where one is expected.
+ */
+export interface RPCTraceContext {
+	/** 32 lowercase hex characters */
+	traceId: string;
+	/** 16 lowercase hex characters */
+	spanId: string;
+	/** 1 when sampled */
+	traceFlags: number;
+	/** tracestate header value, or an object with serialize() like OpenTelemetry's TraceState */
+	traceState?: string | { serialize(): string };
+}
+
+/** Same values as OpenTelemetry's SpanStatusCode */
+export const RPCSpanStatusCode = { UNSET: 0, OK: 1, ERROR: 2 };
+
+/**
+ * The part of a span RPCConnection uses. An OpenTelemetry Span satisfies it.
+ */
+export interface RPCSpan {
+	spanContext(): RPCTraceContext;
+	setAttribute(key: string, value: string | number | boolean): any;
+	setStatus(status: { code: number; message?: string }): any;
+	recordException?(exception: any): any;
+	end(): void;
+}
+
+export type RPCSpanKind = "client" | "server";
+
+export class RPCSpanOptions {
+	kind: RPCSpanKind;
+	/** Remote or explicit parent; when missing the tracer may use its active context */
+	parent?: RPCTraceContext;
+	attributes?: { [key: string]: string | number | boolean };
+}
+
+/**
+ * Creates spans for RPC calls. Adapt it to an OpenTelemetry tracer to export
+ * traces to any compatible backend.
+ *
+ * Usage:
+ *   const otelTracer = trace.getTracer('botdojo-rpc');
+ *   const tracer: RPCTracer = {
+ *     startSpan: (name, options) => otelTracer.startSpan(name,
+ *       { kind: options.kind == 'client' ? SpanKind.CLIENT : SpanKind.SERVER, attributes: options.attributes },
+ *       options.parent ? trace.setSpanContext(context.active(), { ...options.parent, isRemote: true }) : context.active()),
+ *   };
+ *   new RPCConnection(client, { tracer });
+ */
+export interface RPCTracer {
+	startSpan(name: string, options: RPCSpanOptions): RPCSpan;
+}
+
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+
+/**
+ * Parse a `traceparent` header. Returns null for malformed or all-zero ids.
+ */
+export function parseTraceparent(traceparent: string, tracestate?: string): RPCTraceContext | null {
+	let match = typeof traceparent == "string" ? TRACEPARENT_PATTERN.exec(traceparent.trim().toLowerCase()) : null;
+	if (!match || match[1] == "ff" || /^0+$/.test(match[2]) || /^0+$/.test(match[3])) {
+		return null;
+	}
+	let context: RPCTraceContext = { traceId: match[2], spanId: match[3], traceFlags: parseInt(match[4], 16) };
+	if (typeof tracestate == "string" && tracestate) {
+		context.traceState = tracestate;
+	}
+	return context;
+}
+
+export function formatTraceparent(context: RPCTraceContext): string {
+	let flags = ((context.traceFlags ?? 0) & 0xff).toString(16);
+	return "00-" + context.traceId + "-" + context.spanId + "-" + (flags.length == 1 ? "0" + flags : flags);
+}
+
+/**
+ * The headers that propagate `context` to a peer
+ */
+export function getTraceHeaders(context: RPCTraceContext): { [key: string]: string } {
+	let headers: { [key: string]: string } = { [TRACEPARENT_HEADER]: formatTraceparent(context) };
+	let traceState = typeof context.traceState == "string" ? context.traceState : context.traceState?.serialize();
+	if (traceState) {
+		headers[TRACESTATE_HEADER] = traceState;
+	}
+	return headers;
+}
+
+function endSpan(span: RPCSpan, result: any, error: any) {
+	if (error !== undefined) {
+		span.recordException?.(error);
+		span.setStatus({ code: RPCSpanStatusCode.ERROR, message: error?.message ?? String(error) });
+	} else if (result?._type == "MessageError") {
+		span.setStatus({ code: RPCSpanStatusCode.ERROR, message: result.message });
+	} else {
+		span.setStatus({ code: RPCSpanStatusCode.OK });
+	}
+	span.end();
+}
+
+/**
+ * Interceptor that opens a client span around every outgoing request and a
+ * server span around every handler, linking them through the `traceparent`
+ * header. RPCConnection installs it first when `ConectionOptions.tracer` is set.
+ * Handlers find their span's context in `RPCCallContext.trace`.
+ */
+export function createTracingInterceptor(tracer: RPCTracer): RPCInterceptor {
+	let run = async (span: RPCSpan, next: () => Promise<any>) => {
+		let result: any;
+		try {
+			result = await next();
+		} catch (e) {
+			endSpan(span, undefined, e);
+			throw e;
+		}
+		endSpan(span, result, undefined);
+		return result;
+	};
+	return {
+		outboundRequest: (msg, next) => {
+			let span = tracer.startSpan(msg.functionName, {
+				kind: "client",
+				parent: parseTraceparent(msg.headers?.[TRACEPARENT_HEADER], msg.headers?.[TRACESTATE_HEADER]) ?? undefined,
+				attributes: {
+					"rpc.system": "botdojo-rpc",
+					"rpc.method": msg.functionName,
+					"rpc.message.id": msg.id,
+					"net.peer.name": msg.destination,
+				},
+			});
+			msg.headers = { ...msg.headers, ...getTraceHeaders(span.spanContext()) };
+			return run(span, next);
+		},
+		inboundRequest: (msg, next, context) => {
+			let span = tracer.startSpan(msg.functionName, {
+				kind: "server",
+				parent: parseTraceparent(msg.headers?.[TRACEPARENT_HEADER], msg.headers?.[TRACESTATE_HEADER]) ?? undefined,
+				attributes: {
+					"rpc.system": "botdojo-rpc",
+					"rpc.method": msg.functionName,
+					"rpc.message.id": msg.id,
+					"net.peer.name": msg.source,
+				},
+			});
+			if (context) {
+				context.trace = span.spanContext();
+			}
+			return run(span, next);
+		},
+	};
+}
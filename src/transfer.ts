@@ -0,0 +1,69 @@
+/**
+ * Tag of values a structured-clone transport carries as they are, instead of
+ * through a codec
+ */
+export const RPC_TRANSFER_TAG = "Transfer";
+
+const markedTransfers = new WeakMap<object, any[]>();
+
+function isInstance(value: any, name: string): boolean {
+	let Ctor = (globalThis as any)[name];
+	return typeof Ctor == "function" && value instanceof Ctor;
+}
+
+/**
+ * Binary data and handles that postMessage can carry without JSON: ArrayBuffers,
+ * typed arrays and DataViews, MessagePorts, ImageBitmaps and OffscreenCanvases
+ */
+export function isTransferableValue(value: any): boolean {
+	if (value === null || typeof value != "object") {
+		return false;
+	}
+	return (
+		value instanceof ArrayBuffer ||
+		ArrayBuffer.isView(value) ||
+		isInstance(value, "MessagePort") ||
+		isInstance(value, "ImageBitmap") ||
+		isInstance(value, "OffscreenCanvas")
+	);
+}
+
+/**
+ * Hand `value` over to the peer instead of copying it, when the transport
+ * supports it (PostMessageRPCClient does). The objects in `transferables`
+ * (default: `value` itself, or the buffer of a typed array) become unusable on
+ * this side once sent. Other transports copy the value as usual.
+ *
+ * Usage:
+ *   const pixels = new Uint8Array(width * height * 4);
+ *   await connection.sendRequest('canvas', 'draw', [rpcTransfer(pixels)]);
+ *   // pixels.byteLength == 0 now
+ */
+export function rpcTransfer<T extends object>(value: T, transferables?: any[]): T {
+	markedTransfers.set(value, transferables ?? [ArrayBuffer.isView(value) ? value.buffer : value]);
+	return value;
+}
+
+/**
+ * Add what sending `value` transfers to `transfer`: what it was marked with,
+ * MessagePorts and OffscreenCanvases (which can't be copied), and with
+ * `transferBinary` every buffer and ImageBitmap
+ */
+export function collectTransferables(value: any, transfer: any[], transferBinary?: boolean) {
+	let transferables = markedTransfers.get(value);
+	if (!transferables) {
+		if (isInstance(value, "MessagePort") || isInstance(value, "OffscreenCanvas")) {
+			transferables = [value];
+		} else if (transferBinary) {
+			transferables = [ArrayBuffer.isView(value) ? value.buffer : value];
+		} else {
+			return;
+		}
+	}
+	transferables.forEach((item) => {
+		// shared memory is never transferred, and transferring twice throws
+		if (!isInstance(item, "SharedArrayBuffer") && transfer.indexOf(item) < 0) {
+			transfer.push(item);
+		}
+	});
+}